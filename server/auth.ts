@@ -0,0 +1,28 @@
+import { adminAuth } from './firebase';
+import { getDisplayName } from './supabase';
+import type { ChatSocket } from './types';
+
+// Handshake middleware: the client sends its Firebase ID token in
+// `auth.token`. The legacy `userId` query is only used as a consistency check.
+export const authenticate = async (socket: ChatSocket, next: (err?: Error) => void) => {
+  const token = socket.handshake.auth?.token;
+  if (typeof token !== 'string' || !token) {
+    return next(new Error('Unauthorized'));
+  }
+
+  try {
+    const decoded = await adminAuth.verifyIdToken(token);
+    const claimedUserId = socket.handshake.query.userId;
+    if (claimedUserId && claimedUserId !== decoded.uid) {
+      return next(new Error('Unauthorized'));
+    }
+
+    socket.data.userId = decoded.uid;
+    socket.data.displayName =
+      (await getDisplayName(decoded.uid)) || decoded.name || decoded.email?.split('@')[0] || 'User';
+    next();
+  } catch (error) {
+    console.error('Socket authentication failed:', error);
+    next(new Error('Unauthorized'));
+  }
+};
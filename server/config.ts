@@ -0,0 +1,16 @@
+const required = (name: string) => {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`Missing required environment variable ${name}`);
+  }
+  return value;
+};
+
+export const config = {
+  port: Number(process.env.PORT) || 3000,
+  corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  firebaseProjectId: required('FIREBASE_PROJECT_ID'),
+  firebaseStorageBucket: required('FIREBASE_STORAGE_BUCKET'),
+  supabaseUrl: required('SUPABASE_URL'),
+  supabaseServiceRoleKey: required('SUPABASE_SERVICE_ROLE_KEY')
+};
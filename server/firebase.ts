@@ -0,0 +1,15 @@
+import { applicationDefault, initializeApp } from 'firebase-admin/app';
+import { getAuth } from 'firebase-admin/auth';
+import { getStorage } from 'firebase-admin/storage';
+import { config } from './config';
+
+// Credentials come from GOOGLE_APPLICATION_CREDENTIALS (or the runtime's
+// default service account when deployed on GCP).
+const app = initializeApp({
+  credential: applicationDefault(),
+  projectId: config.firebaseProjectId,
+  storageBucket: config.firebaseStorageBucket
+});
+
+export const adminAuth = getAuth(app);
+export const adminStorage = getStorage(app);
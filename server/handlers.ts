@@ -0,0 +1,94 @@
+import { groupRoom, userRoom } from '../src/types/socket';
+import type { ConversationRef, PresenceStatus, TypingPayload } from '../src/types/socket';
+import { getGroupIds, isBlockedBetween, isGroupMember } from './supabase';
+import { trackConnect, trackDisconnect, trackStatus } from './presence';
+import type { ChatServer, ChatSocket } from './types';
+
+// Payloads come straight from clients, so they are checked before use and
+// anything malformed is dropped. Ids are limited to the characters of uuids
+// and Firebase uids since they end up in PostgREST filters.
+const isId = (value: unknown): value is string => typeof value === 'string' && /^[A-Za-z0-9-]{1,128}$/.test(value);
+
+const isConversationRef = (value: unknown): value is ConversationRef => {
+  const ref = value as Partial<ConversationRef> | null;
+  return typeof ref === 'object' && ref !== null && (ref.type === 'dm' || ref.type === 'group') && isId(ref.id);
+};
+
+const isTypingPayload = (value: unknown): value is TypingPayload => {
+  const payload = value as Partial<TypingPayload> | null;
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    isConversationRef(payload.conversation) &&
+    typeof payload.isTyping === 'boolean'
+  );
+};
+
+const isSocketStatus = (value: unknown): value is Exclude<PresenceStatus, 'offline'> =>
+  value === 'online' || value === 'away';
+
+export const registerHandlers = (io: ChatServer) => {
+  io.on('connection', (socket: ChatSocket) => {
+    const { userId, displayName } = socket.data;
+
+    socket.join(userRoom(userId));
+    trackConnect(io, socket);
+
+    getGroupIds(userId)
+      .then((groupIds) => socket.join(groupIds.map(groupRoom)))
+      .catch((error) => console.error('Error joining group rooms:', error));
+
+    socket.on('typing', async (payload: unknown) => {
+      if (!isTypingPayload(payload)) return;
+
+      const { conversation, isTyping } = payload;
+      if (conversation.type === 'dm' && conversation.id === userId) return;
+
+      const room = conversation.type === 'group' ? groupRoom(conversation.id) : userRoom(conversation.id);
+
+      // Only relay into group rooms this socket actually belongs to
+      if (conversation.type === 'group' && !socket.rooms.has(room)) return;
+
+      // Blocks hide DMs in either direction, so typing isn't relayed either
+      if (conversation.type === 'dm') {
+        try {
+          if (await isBlockedBetween(userId, conversation.id)) return;
+        } catch (error) {
+          console.error('Error checking blocks:', error);
+          return;
+        }
+      }
+
+      // For DMs the recipient sees the conversation keyed by the sender's id
+      const relayed: ConversationRef =
+        conversation.type === 'dm' ? { type: 'dm', id: userId } : { type: 'group', id: conversation.id };
+      socket.to(room).emit('typing', { conversation: relayed, isTyping, userId, displayName });
+    });
+
+    // Membership changes after connect (group created, member added) are
+    // picked up by the client asking to join; the server re-checks membership.
+    socket.on('group:join', async (groupId: unknown) => {
+      if (!isId(groupId)) return;
+
+      if (await isGroupMember(groupId, userId)) {
+        socket.join(groupRoom(groupId));
+      }
+    });
+
+    socket.on('group:leave', (groupId: unknown) => {
+      if (!isId(groupId)) return;
+
+      socket.leave(groupRoom(groupId));
+    });
+
+    socket.on('presence:status', (status: unknown) => {
+      if (!isSocketStatus(status)) return;
+
+      trackStatus(io, socket, status);
+    });
+
+    socket.on('disconnect', () => {
+      trackDisconnect(io, socket);
+    });
+  });
+};
@@ -0,0 +1,26 @@
+import { createServer } from 'node:http';
+import { Server } from 'socket.io';
+import { config } from './config';
+import { authenticate } from './auth';
+import { registerHandlers } from './handlers';
+import { resetPresence } from './supabase';
+import { startStorageCleanup } from './storage';
+import type { ChatServer } from './types';
+
+const httpServer = createServer();
+
+const io: ChatServer = new Server(httpServer, {
+  cors: { origin: config.corsOrigin }
+});
+
+io.use(authenticate);
+registerHandlers(io);
+
+resetPresence()
+  .catch((error) => console.error('Error resetting presence:', error))
+  .finally(() => {
+    httpServer.listen(config.port, () => {
+      console.log(`Socket server listening on port ${config.port}`);
+    });
+    startStorageCleanup();
+  });
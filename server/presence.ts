@@ -0,0 +1,68 @@
+import { getBlockedUserIds, setPresence } from './supabase';
+import { userRoom } from '../src/types/socket';
+import type { PresenceStatus } from '../src/types/socket';
+import type { ChatServer, ChatSocket } from './types';
+
+type SocketStatus = Exclude<PresenceStatus, 'offline'>;
+
+// A user can have several tabs or devices connected at once. They are online
+// while any socket is active, away once all of them are idle or hidden, and
+// offline only when the last one disconnects.
+const sockets = new Map<string, Map<string, SocketStatus>>();
+const published = new Map<string, PresenceStatus>();
+
+const combinedStatus = (userId: string): PresenceStatus => {
+  const statuses = sockets.get(userId);
+  if (!statuses || statuses.size === 0) return 'offline';
+  return [...statuses.values()].includes('online') ? 'online' : 'away';
+};
+
+const publish = (io: ChatServer, userId: string) => {
+  const status = combinedStatus(userId);
+  if (published.get(userId) === status) return;
+
+  if (status === 'offline') {
+    published.delete(userId);
+  } else {
+    published.set(userId, status);
+  }
+
+  const lastSeen = new Date().toISOString();
+  setPresence(userId, status, lastSeen).catch((error) => console.error('Error saving presence:', error));
+
+  // Users blocked either way don't see each other's presence. If the lookup
+  // fails the change isn't sent at all, and a change published while the
+  // lookup was running replaces this one.
+  getBlockedUserIds(userId)
+    .then((blockedIds) => {
+      if ((published.get(userId) ?? 'offline') !== status) return;
+      io.except(blockedIds.map(userRoom)).emit('presence', { userId, status, lastSeen });
+    })
+    .catch((error) => console.error('Error loading blocked users:', error));
+};
+
+export const trackConnect = (io: ChatServer, socket: ChatSocket) => {
+  const { userId } = socket.data;
+  const statuses = sockets.get(userId) || new Map<string, SocketStatus>();
+  statuses.set(socket.id, 'online');
+  sockets.set(userId, statuses);
+  publish(io, userId);
+};
+
+export const trackStatus = (io: ChatServer, socket: ChatSocket, status: SocketStatus) => {
+  const statuses = sockets.get(socket.data.userId);
+  if (!statuses?.has(socket.id)) return;
+
+  statuses.set(socket.id, status);
+  publish(io, socket.data.userId);
+};
+
+export const trackDisconnect = (io: ChatServer, socket: ChatSocket) => {
+  const { userId } = socket.data;
+  const statuses = sockets.get(userId);
+  statuses?.delete(socket.id);
+  if (statuses?.size === 0) {
+    sockets.delete(userId);
+  }
+  publish(io, userId);
+};
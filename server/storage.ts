@@ -0,0 +1,53 @@
+import { adminStorage } from './firebase';
+import { getPendingStorageDeletions, removePendingStorageDeletions } from './supabase';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 100;
+
+// Only objects the database accepts as attachments or group avatars are ever
+// queued: a sender's own uploads under messages/<user id>/ or
+// group_messages/<user id>/, and group_avatars/<group id>/
+const DELETABLE_PATH = /^(messages|group_messages|group_avatars)\/[^/]+\/[^/]/;
+
+// Entries stay queued until their object is gone, so a failed delete is
+// retried on the next sweep
+const sweep = async () => {
+  const pending = await getPendingStorageDeletions(BATCH_SIZE);
+  const done: string[] = [];
+
+  await Promise.all(
+    pending.map(async ({ id, path }) => {
+      if (!DELETABLE_PATH.test(path)) {
+        console.error('Dropping storage path outside the upload folders:', path);
+        done.push(id);
+        return;
+      }
+
+      try {
+        await adminStorage.bucket().file(path).delete({ ignoreNotFound: true });
+        done.push(id);
+      } catch (error) {
+        console.error('Error deleting stored file:', error);
+      }
+    })
+  );
+
+  await removePendingStorageDeletions(done);
+};
+
+export const startStorageCleanup = () => {
+  let running = false;
+
+  const run = () => {
+    if (running) return;
+    running = true;
+    sweep()
+      .catch((error) => console.error('Error cleaning up storage:', error))
+      .finally(() => {
+        running = false;
+      });
+  };
+
+  run();
+  setInterval(run, SWEEP_INTERVAL_MS);
+};
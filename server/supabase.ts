@@ -0,0 +1,106 @@
+import { createClient } from '@supabase/supabase-js';
+import { config } from './config';
+import type { PresenceStatus } from '../src/types/socket';
+
+// Service-role client: bypasses RLS, so every query here must scope itself
+// to the authenticated socket user.
+export const supabase = createClient(config.supabaseUrl, config.supabaseServiceRoleKey, {
+  auth: { persistSession: false }
+});
+
+export const getDisplayName = async (userId: string) => {
+  const { data } = await supabase
+    .from('profiles')
+    .select('display_name')
+    .eq('id', userId)
+    .single();
+
+  return data?.display_name as string | undefined;
+};
+
+export const setPresence = async (userId: string, status: PresenceStatus, lastSeen: string) => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ presence: status, online_status: status !== 'offline', last_seen: lastSeen })
+    .eq('id', userId);
+
+  if (error) throw error;
+};
+
+// Connections only live in this process, so nobody is online after a restart
+export const resetPresence = async () => {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ presence: 'offline', online_status: false })
+    .neq('presence', 'offline');
+
+  if (error) throw error;
+};
+
+export const getGroupIds = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('group_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return (data || []).map((m) => m.group_id as string);
+};
+
+export const isGroupMember = async (groupId: string, userId: string) => {
+  const { count } = await supabase
+    .from('group_members')
+    .select('*', { count: 'exact', head: true })
+    .eq('group_id', groupId)
+    .eq('user_id', userId);
+
+  return (count || 0) > 0;
+};
+
+// Same check as the is_blocked_between SQL function, which reads auth.uid()
+// and so can't be used with the service role
+export const isBlockedBetween = async (userId: string, otherUserId: string) => {
+  const { count, error } = await supabase
+    .from('blocked_users')
+    .select('*', { count: 'exact', head: true })
+    .or(
+      `and(blocker_id.eq.${userId},blocked_id.eq.${otherUserId}),and(blocker_id.eq.${otherUserId},blocked_id.eq.${userId})`
+    );
+
+  if (error) throw error;
+  return (count || 0) > 0;
+};
+
+// Everyone the user has blocked or been blocked by
+export const getBlockedUserIds = async (userId: string) => {
+  const { data, error } = await supabase
+    .from('blocked_users')
+    .select('blocker_id, blocked_id')
+    .or(`blocker_id.eq.${userId},blocked_id.eq.${userId}`);
+
+  if (error) throw error;
+  return (data || []).map((row) => (row.blocker_id === userId ? row.blocked_id : row.blocker_id) as string);
+};
+
+// Files whose rows were deleted; the objects still have to go from Storage
+export const getPendingStorageDeletions = async (limit: number) => {
+  const { data, error } = await supabase
+    .from('pending_storage_deletions')
+    .select('id, path')
+    .order('created_at')
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as { id: string; path: string }[];
+};
+
+export const removePendingStorageDeletions = async (ids: string[]) => {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('pending_storage_deletions')
+    .delete()
+    .in('id', ids);
+
+  if (error) throw error;
+};
@@ -0,0 +1,86 @@
+import { Paperclip, X, FileText } from 'lucide-react';
+import type { PendingAttachment } from '../../services/files';
+import type { MessageFile } from '../../types/chat';
+
+export const MAX_FILE_SIZE = 500 * 1024 * 1024;
+export const MAX_ATTACHMENTS = 10;
+
+export const MessageAttachments = ({ files }: { files: MessageFile[] }) => {
+  const images = files.filter((f) => f.file_type.startsWith('image/'));
+  const others = files.filter((f) => !f.file_type.startsWith('image/'));
+
+  return (
+    <div className="space-y-2">
+      {images.length > 0 && (
+        <div className={`grid gap-1 ${images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'}`}>
+          {images.map((file, i) => (
+            <a
+              key={`${file.firebase_url}_${i}`}
+              href={file.firebase_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              // An odd image out spans the full row so the grid stays rectangular
+              className={images.length > 1 && images.length % 2 === 1 && i === images.length - 1 ? 'col-span-2' : ''}
+            >
+              <img
+                src={file.firebase_url}
+                alt={file.file_name}
+                className={`rounded-lg w-full ${images.length > 1 ? 'h-32 object-cover' : 'max-w-full'}`}
+              />
+            </a>
+          ))}
+        </div>
+      )}
+      {others.map((file, i) => (
+        <a
+          key={`${file.firebase_url}_${i}`}
+          href={file.firebase_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-2 hover:underline"
+        >
+          <Paperclip size={16} />
+          <span className="text-sm break-all">{file.file_name}</span>
+        </a>
+      ))}
+    </div>
+  );
+};
+
+interface AttachmentTrayProps {
+  attachments: PendingAttachment[];
+  onRemove: (id: string) => void;
+}
+
+export const AttachmentTray = ({ attachments, onRemove }: AttachmentTrayProps) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="px-4 py-2 bg-gray-800/50 border-t border-violet-500/20 flex gap-2 overflow-x-auto">
+      {attachments.map((attachment) => (
+        <div
+          key={attachment.id}
+          className="relative w-24 flex-shrink-0 bg-gray-900/50 border border-violet-500/30 rounded-lg overflow-hidden"
+        >
+          {attachment.previewUrl ? (
+            <img src={attachment.previewUrl} alt={attachment.file.name} className="w-24 h-20 object-cover" />
+          ) : (
+            <div className="w-24 h-20 flex items-center justify-center">
+              <FileText size={32} className="text-violet-400" />
+            </div>
+          )}
+          <p className="px-1 py-0.5 text-xs text-white truncate" title={attachment.file.name}>
+            {attachment.file.name}
+          </p>
+          <button
+            onClick={() => onRemove(attachment.id)}
+            className="absolute top-1 right-1 p-0.5 bg-black/60 rounded-full text-gray-300 hover:text-white"
+            title="Remove"
+          >
+            <X size={14} />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { profileService } from '../../services/profiles';
+import { X } from 'lucide-react';
+import { SharedFiles } from './SharedFiles';
+import { PresenceDot } from './PresenceDot';
+import { usePresence, formatLastSeen } from '../../hooks/usePresence';
+import type { Profile } from '../../types/chat';
+
+interface ChatDetailsProps {
+  userId: string;
+  userName: string;
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+export const ChatDetails = ({ userId, userName, onClose, onJumpToMessage }: ChatDetailsProps) => {
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const presence = usePresence()(userId);
+
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        setProfile(await profileService.getProfile(userId));
+      } catch (error) {
+        console.error('Error loading profile:', error);
+      }
+    };
+
+    loadProfile();
+  }, [userId]);
+
+  const displayName = profile?.display_name || userName;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800/90 backdrop-blur-lg rounded-2xl shadow-2xl border border-violet-500/20 max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-gray-800/95 backdrop-blur-lg p-6 border-b border-violet-500/20 flex items-center justify-between z-10">
+          <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-purple-600">
+            Chat Details
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Contact Info */}
+          <div className="flex flex-col items-center space-y-4">
+            <div className="relative">
+              <div className="w-32 h-32 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white text-4xl font-semibold overflow-hidden">
+                {profile?.avatar_url ? (
+                  <img src={profile.avatar_url} alt={displayName} className="w-full h-full object-cover" />
+                ) : (
+                  displayName.charAt(0).toUpperCase()
+                )}
+              </div>
+              <PresenceDot presence={presence} className="w-5 h-5 bottom-2 right-2" />
+            </div>
+            <h3 className="text-2xl font-bold text-white">{displayName}</h3>
+            <p className="text-sm text-gray-400">{formatLastSeen(presence)}</p>
+            {profile?.email && <p className="text-sm text-gray-500">{profile.email}</p>}
+            {profile?.bio && <p className="text-gray-400 text-center max-w-md">{profile.bio}</p>}
+          </div>
+
+          <SharedFiles kind="dm" conversationId={userId} onJumpToMessage={onJumpToMessage} />
+        </div>
+      </div>
+    </div>
+  );
+};
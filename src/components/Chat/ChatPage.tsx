@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '../../contexts/AuthContext';
 import { UserList } from './UserList';
 import { ChatWindow } from './ChatWindow';
@@ -6,7 +6,12 @@ import { GroupList } from './GroupList';
 import { GroupChatWindow } from './GroupChatWindow';
 import { Profile } from './Profile';
 import { CreateGroup } from './CreateGroup';
+import { MessageSearch } from './MessageSearch';
+import { JoinGroupDialog } from './JoinGroupDialog';
 import { LogOut, User, Users, MessageSquare } from 'lucide-react';
+import { notificationService } from '../../services/notifications';
+import { inviteService } from '../../services/invites';
+import type { SearchResult } from '../../types/chat';
 
 export const ChatPage = () => {
   const [selectedUserId, setSelectedUserId] = useState<string | null>(null);
@@ -16,7 +21,11 @@ export const ChatPage = () => {
   const [showProfile, setShowProfile] = useState(false);
   const [showCreateGroup, setShowCreateGroup] = useState(false);
   const [activeTab, setActiveTab] = useState<'users' | 'groups'>('users');
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null);
+  // Set when the app was opened from a group invite link
+  const [inviteToken, setInviteToken] = useState(() => inviteService.readTokenFromUrl());
   const { signOut } = useAuth();
+  const clearFocus = useCallback(() => setFocusMessageId(null), []);
 
   const handleSelectUser = (userId: string, displayName: string) => {
     setSelectedUserId(userId);
@@ -32,6 +41,40 @@ export const ChatPage = () => {
     setActiveTab('groups');
   };
 
+  useEffect(() => {
+    inviteService.clearTokenFromUrl();
+  }, []);
+
+  useEffect(() => {
+    return notificationService.onOpenConversation(({ conversation, name }) => {
+      if (conversation.type === 'dm') {
+        handleSelectUser(conversation.id, name);
+      } else {
+        handleSelectGroup(conversation.id, name);
+      }
+    });
+  }, []);
+
+  // Messages in the conversation on screen don't raise notifications
+  useEffect(() => {
+    if (activeTab === 'users' && selectedUserId) {
+      notificationService.setActiveConversation({ type: 'dm', id: selectedUserId });
+    } else if (activeTab === 'groups' && selectedGroupId) {
+      notificationService.setActiveConversation({ type: 'group', id: selectedGroupId });
+    } else {
+      notificationService.setActiveConversation(null);
+    }
+  }, [activeTab, selectedUserId, selectedGroupId]);
+
+  const handleOpenSearchResult = (result: SearchResult) => {
+    if (result.kind === 'dm') {
+      handleSelectUser(result.conversation_id, result.conversation_name);
+    } else {
+      handleSelectGroup(result.conversation_id, result.conversation_name);
+    }
+    setFocusMessageId(result.message_id);
+  };
+
   const handleGroupCreated = () => {
     // Refresh will happen automatically due to real-time subscription
     setActiveTab('groups');
@@ -66,6 +109,8 @@ export const ChatPage = () => {
       <div className="flex-1 flex overflow-hidden">
         {/* Sidebar */}
         <div className="w-80 bg-gray-800/30 backdrop-blur-sm border-r border-violet-500/20 hidden md:flex flex-col">
+          <MessageSearch onOpenResult={handleOpenSearchResult} />
+
           {/* Tabs */}
           <div className="flex border-b border-violet-500/20">
             <button
@@ -109,15 +154,36 @@ export const ChatPage = () => {
         {/* Main Chat Area */}
         <div className="flex-1">
           {activeTab === 'users' ? (
-            <ChatWindow selectedUserId={selectedUserId} selectedUserName={selectedUserName} />
+            <ChatWindow
+              selectedUserId={selectedUserId}
+              selectedUserName={selectedUserName}
+              focusMessageId={focusMessageId}
+              onFocusHandled={clearFocus}
+            />
           ) : (
-            <GroupChatWindow selectedGroupId={selectedGroupId} selectedGroupName={selectedGroupName} />
+            <GroupChatWindow
+              selectedGroupId={selectedGroupId}
+              selectedGroupName={selectedGroupName}
+              focusMessageId={focusMessageId}
+              onFocusHandled={clearFocus}
+              onGroupClosed={() => setSelectedGroupId(null)}
+            />
           )}
         </div>
       </div>
 
       {/* Modals */}
       {showProfile && <Profile onClose={() => setShowProfile(false)} />}
+      {inviteToken && (
+        <JoinGroupDialog
+          token={inviteToken}
+          onJoined={(groupId, groupName) => {
+            setInviteToken(null);
+            handleSelectGroup(groupId, groupName);
+          }}
+          onClose={() => setInviteToken(null)}
+        />
+      )}
       {showCreateGroup && (
         <CreateGroup
           onClose={() => setShowCreateGroup(false)}
@@ -1,238 +1,405 @@
-import { useEffect, useState, useRef } from 'react';
-import { supabase } from '../../config/supabase';
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import { messageService } from '../../services/messages';
 import { useAuth } from '../../contexts/AuthContext';
-import { Send, Paperclip, MessageSquare, X, Check, CheckCheck } from 'lucide-react';
-import { ref as storageRef, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { storage } from '../../config/firebase';
-
-interface Message {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  content: string;
-  message_type: string;
-  read: boolean;
-  created_at: string;
-  files?: {
-    file_name: string;
-    file_type: string;
-    firebase_url: string;
-  }[];
-}
+import { Send, Paperclip, MessageSquare, ArrowDown, Info, Ban, Flag } from 'lucide-react';
+import { MessageActions } from './MessageActions';
+import { PendingMessage } from './PendingMessage';
+import { ChatDetails } from './ChatDetails';
+import { MessageInfo, DeliveryStatusIcon } from './MessageInfo';
+import { ReportDialog } from './ReportDialog';
+import { MessageAttachments, AttachmentTray, MAX_FILE_SIZE, MAX_ATTACHMENTS } from './Attachments';
+import { createPendingAttachment, getCaption, PendingAttachment } from '../../services/files';
+import { useScrollAnchor } from '../../hooks/useScrollAnchor';
+import { useOutbox } from '../../hooks/useOutbox';
+import type { OutboxEntry } from '../../services/outbox';
+import { ReplyQuote } from './ReplyQuote';
+import { ReactionBar, ReactionPicker } from './MessageReactions';
+import { useTypingIndicator, formatTypingText } from '../../hooks/useTypingIndicator';
+import { usePresence, formatLastSeen } from '../../hooks/usePresence';
+import { useBlockedUsers } from '../../hooks/useBlockedUsers';
+import { moderationService } from '../../services/moderation';
+import type { DirectMessage as Message, GroupMessage, ReactionChange } from '../../types/chat';
 
 interface ChatWindowProps {
   selectedUserId: string | null;
   selectedUserName: string;
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-export const ChatWindow = ({ selectedUserId, selectedUserName }: ChatWindowProps) => {
+export const ChatWindow = ({ selectedUserId, selectedUserName, focusMessageId, onFocusHandled }: ChatWindowProps) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
+  const [showChatDetails, setShowChatDetails] = useState(false);
+  // Kept as an id so the info view follows receipts arriving over realtime
+  const [infoMessageId, setInfoMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const loadingPageRef = useRef(false);
+  const loadTokenRef = useRef(0);
+  const pendingFocusRef = useRef<string | null>(null);
+  const hasNewerRef = useRef(false);
+  hasNewerRef.current = hasNewer;
+  // The returned row stands in for the realtime INSERT, which is de-duplicated by id
+  const handleSent = (entry: OutboxEntry, row: Message | GroupMessage) => {
+    if (hasNewerRef.current) return;
+
+    const sent = {
+      ...(row as Message),
+      files: entry.files.map((f) => ({ file_name: f.name, file_type: f.type, firebase_url: f.url || '' })),
+      reactions: []
+    };
+    setMessages((prev) => (prev.some((m) => m.id === sent.id) ? prev : [...prev, sent]));
+  };
+
+  const { pending, enqueue, retry, discard } = useOutbox('dm', selectedUserId, handleSent);
+  // Once the server row has arrived the outbox copy is redundant
+  const visiblePending = useMemo(
+    () => (hasNewer ? [] : pending.filter((entry) => !messages.some((m) => m.client_id === entry.id))),
+    [pending, messages, hasNewer]
+  );
+  const scrollItems = useMemo(() => [...messages, ...visiblePending], [messages, visiblePending]);
+  const { containerRef, endRef, preserveScroll } = useScrollAnchor(scrollItems, !hasNewer);
   const { user } = useAuth();
+  const { typingNames, notifyTyping, stopTyping } = useTypingIndicator('dm', selectedUserId);
+  const getPresence = usePresence();
+  const { blockedIds, block, unblock } = useBlockedUsers();
+  const isBlocked = !!selectedUserId && blockedIds.has(selectedUserId);
+  // `message` is unset when the user as a whole is being reported
+  const [reporting, setReporting] = useState<{ message?: Message } | null>(null);
 
   useEffect(() => {
+    setReplyingTo(null);
     if (selectedUserId && user) {
       loadMessages();
       // Mark messages as read immediately when chat opens
       markMessagesAsRead();
       
-      const channel = supabase
-        .channel(`messages_${selectedUserId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'messages'
-          },
-          async (payload) => {
-            const newMsg = payload.new as Message;
-            
-            if (
-              (newMsg.sender_id === selectedUserId && newMsg.receiver_id === user.uid) ||
-              (newMsg.sender_id === user.uid && newMsg.receiver_id === selectedUserId)
-            ) {
-              if (newMsg.message_type === 'file') {
-                const { data: fileData } = await supabase
-                  .from('files')
-                  .select('file_name, file_type, firebase_url')
-                  .eq('message_id', newMsg.id);
-                
-                newMsg.files = fileData || [];
-              }
-              
-              setMessages((prev) => {
-                if (prev.some(m => m.id === newMsg.id)) {
-                  return prev;
-                }
-                return [...prev, newMsg];
-              });
-
-              // Mark as read immediately if message is from the selected user
-              if (newMsg.sender_id === selectedUserId && newMsg.receiver_id === user.uid) {
-                // Use setTimeout to ensure the message is inserted before marking as read
-                setTimeout(() => {
-                  markMessagesAsRead();
-                }, 100);
-              }
+      // Blocking hides the other side's messages and unblocking brings them back
+      const unsubscribeBlocks = moderationService.subscribeToBlocks(loadMessages);
+      const unsubscribeMessages = messageService.subscribeToConversation('dm', selectedUserId, user.uid, {
+        onInsert: (newMsg) => {
+          // While browsing older history the tail isn't loaded; the message
+          // shows up once the user scrolls down or jumps to latest
+          if (hasNewerRef.current) return;
+
+          setMessages((prev) => {
+            if (prev.some(m => m.id === newMsg.id)) {
+              return prev;
             }
+            return [...prev, newMsg];
+          });
+
+          // Mark as read immediately if message is from the selected user
+          if (newMsg.sender_id === selectedUserId) {
+            // Use setTimeout to ensure the message is inserted before marking as read
+            setTimeout(() => {
+              markMessagesAsRead();
+            }, 100);
           }
-        )
-        .on(
-          'postgres_changes',
-          {
-            event: 'UPDATE',
-            schema: 'public',
-            table: 'messages'
-          },
-          (payload) => {
-            const updatedMsg = payload.new as Message;
-            setMessages((prev) =>
-              prev.map((msg) => (msg.id === updatedMsg.id ? updatedMsg : msg))
-            );
-          }
-        )
-        .subscribe();
+        },
+        onUpdate: applyMessageUpdate,
+        onReactionAdded: addReaction,
+        onReactionRemoved: removeReaction,
+        onHidden: removeMessage
+      });
 
       return () => {
-        supabase.removeChannel(channel);
+        unsubscribeBlocks();
+        unsubscribeMessages();
       };
     }
   }, [selectedUserId, user]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+  // One page of history in chronological order, strictly before or after `cursor`
+  const fetchPage = useCallback(async (direction: 'older' | 'newer', cursor?: Message) => {
+    if (!selectedUserId || !user) return null;
+
+    try {
+      return await messageService.fetchPage('dm', selectedUserId, user.uid, direction, cursor);
+    } catch (error) {
+      console.error('Error loading messages:', error);
+      return null;
+    }
+  }, [selectedUserId, user]);
 
   const loadMessages = async () => {
     if (!selectedUserId || !user) return;
 
-    const { data, error } = await supabase
-      .from('messages')
-      .select(`
-        *,
-        files (
-          file_name,
-          file_type,
-          firebase_url
-        )
-      `)
-      .or(`and(sender_id.eq.${user.uid},receiver_id.eq.${selectedUserId}),and(sender_id.eq.${selectedUserId},receiver_id.eq.${user.uid})`)
-      .order('created_at', { ascending: true });
-
-    if (error) {
-      console.error('Error loading messages:', error);
-    } else {
-      setMessages(data || []);
+    const token = ++loadTokenRef.current;
+    const result = await fetchPage('older');
+    if (!result || token !== loadTokenRef.current) return;
+
+    setMessages(result.messages);
+    setHasMore(result.full);
+    setHasNewer(false);
+  };
+
+  // Loads the pages on either side of a message that isn't in the current window
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (!selectedUserId || !user) return;
+
+    const token = ++loadTokenRef.current;
+    let target: Message | null;
+    try {
+      target = await messageService.getMessage('dm', selectedUserId, user.uid, messageId);
+    } catch (error) {
+      console.error('Error loading message:', error);
+      return;
+    }
+    if (!target) return;
+
+    const [older, newer] = await Promise.all([fetchPage('older', target), fetchPage('newer', target)]);
+    if (!older || !newer || token !== loadTokenRef.current) return;
+
+    setMessages([...older.messages, target, ...newer.messages]);
+    setHasMore(older.full);
+    setHasNewer(newer.full);
+    pendingFocusRef.current = messageId;
+  }, [selectedUserId, user, fetchPage]);
+
+  const loadOlderMessages = async () => {
+    if (!hasMore || loadingPageRef.current || messages.length === 0) return;
+
+    loadingPageRef.current = true;
+    const result = await fetchPage('older', messages[0]);
+    if (result) {
+      preserveScroll();
+      setMessages((prev) => [...result.messages.filter((m) => !prev.some((p) => p.id === m.id)), ...prev]);
+      setHasMore(result.full);
+    }
+    loadingPageRef.current = false;
+  };
+
+  const loadNewerMessages = async () => {
+    if (!hasNewer || loadingPageRef.current || messages.length === 0) return;
+
+    loadingPageRef.current = true;
+    const result = await fetchPage('newer', messages[messages.length - 1]);
+    if (result) {
+      setMessages((prev) => [...prev, ...result.messages.filter((m) => !prev.some((p) => p.id === m.id))]);
+      setHasNewer(result.full);
+    }
+    loadingPageRef.current = false;
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollTop < 100) {
+      loadOlderMessages();
+    } else if (scrollHeight - scrollTop - clientHeight < 100) {
+      loadNewerMessages();
     }
   };
 
   const markMessagesAsRead = async () => {
     if (!selectedUserId || !user) return;
 
-    await supabase
-      .from('messages')
-      .update({ read: true })
-      .eq('sender_id', selectedUserId)
-      .eq('receiver_id', user.uid)
-      .eq('read', false);
+    try {
+      await messageService.markDirectMessagesRead(selectedUserId);
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  // Realtime UPDATE payloads don't carry the joined files, so merge instead of replacing
+  const applyMessageUpdate = (updatedMsg: Message) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === updatedMsg.id
+          ? { ...msg, ...updatedMsg, files: updatedMsg.deleted_at ? [] : msg.files }
+          : msg
+      )
+    );
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 500 * 1024 * 1024) {
-        alert('File size must be less than 500MB');
-        return;
-      }
-      setSelectedFile(file);
-    }
+  const removeMessage = (messageId: string) => {
+    setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
   };
 
-  const uploadFile = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const fileRef = storageRef(storage, `messages/${Date.now()}_${file.name}`);
-      const uploadTask = uploadBytesResumable(fileRef, file);
+  const startEditing = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
 
-      uploadTask.on(
-        'state_changed',
-        (snapshot) => {
-          const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress(progress);
-        },
-        (error) => {
-          reject(error);
-        },
-        async () => {
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          resolve(downloadURL);
-        }
-      );
-    });
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditText('');
   };
 
-  const sendMessage = async () => {
-    if ((!newMessage.trim() && !selectedFile) || !user || !selectedUserId) return;
+  const saveEdit = async () => {
+    if (!editingMessageId || !editText.trim()) return;
 
-    setUploading(true);
     try {
-      let fileUrl = '';
-      let messageType = 'text';
+      applyMessageUpdate(await messageService.edit('dm', editingMessageId, editText.trim()));
+      cancelEditing();
+    } catch (error) {
+      console.error('Error editing message:', error);
+      alert('Failed to edit message');
+    }
+  };
 
-      if (selectedFile) {
-        fileUrl = await uploadFile(selectedFile);
-        messageType = 'file';
+  const deleteMessage = async (messageId: string, forEveryone: boolean) => {
+    if (forEveryone && !confirm('Delete this message for everyone?')) return;
+
+    try {
+      const updated = await messageService.remove('dm', messageId, forEveryone);
+      if (forEveryone) {
+        applyMessageUpdate(updated);
+      } else {
+        removeMessage(messageId);
       }
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      alert('Failed to delete message');
+    }
+  };
 
-      const messageData = {
-        sender_id: user.uid,
-        receiver_id: selectedUserId,
-        content: selectedFile ? selectedFile.name : newMessage,
-        message_type: messageType,
-        read: false
-      };
+  const addReaction = (reaction: ReactionChange) => {
+    setMessages((prev) =>
+      prev.map((msg) => {
+        if (msg.id !== reaction.message_id) return msg;
+        const reactions = msg.reactions || [];
+        if (reactions.some((r) => r.user_id === reaction.user_id && r.emoji === reaction.emoji)) {
+          return msg;
+        }
+        return { ...msg, reactions: [...reactions, { user_id: reaction.user_id, emoji: reaction.emoji }] };
+      })
+    );
+  };
 
-      const { data: messageResult, error: messageError } = await supabase
-        .from('messages')
-        .insert(messageData)
-        .select()
-        .single();
-
-      if (messageError) throw messageError;
-
-      if (selectedFile && fileUrl) {
-        await supabase.from('files').insert({
-          message_id: messageResult.id,
-          file_name: selectedFile.name,
-          file_type: selectedFile.type,
-          file_size: selectedFile.size,
-          firebase_url: fileUrl
-        });
-      }
+  // DELETE payloads can't be filtered server-side, so unknown message ids are simply ignored
+  const removeReaction = (reaction: ReactionChange) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === reaction.message_id
+          ? {
+              ...msg,
+              reactions: (msg.reactions || []).filter(
+                (r) => !(r.user_id === reaction.user_id && r.emoji === reaction.emoji)
+              )
+            }
+          : msg
+      )
+    );
+  };
 
-      setNewMessage('');
-      setSelectedFile(null);
-      setUploadProgress(0);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+  const toggleReaction = async (message: Message, emoji: string) => {
+    if (!user) return;
+
+    const reaction = { message_id: message.id, user_id: user.uid, emoji };
+    const alreadyReacted = message.reactions?.some((r) => r.user_id === user.uid && r.emoji === emoji);
+
+    if (alreadyReacted) {
+      removeReaction(reaction);
+      try {
+        await messageService.removeReaction('dm', reaction);
+      } catch (error) {
+        console.error('Error removing reaction:', error);
+        addReaction(reaction);
+      }
+    } else {
+      addReaction(reaction);
+      try {
+        await messageService.addReaction('dm', reaction);
+      } catch (error) {
+        console.error('Error adding reaction:', error);
+        removeReaction(reaction);
       }
-    } catch (error) {
-      console.error('Error sending message:', error);
-      alert('Failed to send message');
-    } finally {
-      setUploading(false);
     }
   };
 
+  const getReactorName = () => selectedUserName;
+
+  const infoMessage = messages.find((m) => m.id === infoMessageId);
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) {
+      jumpToMessage(messageId);
+      return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(null), 2000);
+  }, [jumpToMessage]);
+
+  useEffect(() => {
+    if (focusMessageId && selectedUserId && user) {
+      jumpToMessage(focusMessageId);
+      onFocusHandled?.();
+    }
+  }, [focusMessageId, selectedUserId, user, jumpToMessage, onFocusHandled]);
+
+  useEffect(() => {
+    if (pendingFocusRef.current) {
+      scrollToMessage(pendingFocusRef.current);
+      pendingFocusRef.current = null;
+    }
+  }, [messages, scrollToMessage]);
+
+  // Prefer the live copy so edits and deletes of the original show up in the quote
+  const getQuotedMessage = (message: Message) =>
+    messages.find((m) => m.id === message.reply_to_id) || message.reply_to;
+
+  const getQuoteSenderName = (quoted: { sender_id: string } | null | undefined) =>
+    quoted?.sender_id === user?.uid ? 'You' : selectedUserName;
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_SIZE);
+    if (tooLarge.length > 0) {
+      alert(`File size must be less than 500MB: ${tooLarge.map((file) => file.name).join(', ')}`);
+    }
+
+    const accepted = files.filter((file) => file.size <= MAX_FILE_SIZE);
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (accepted.length > room) {
+      alert(`You can attach up to ${MAX_ATTACHMENTS} files per message`);
+    }
+
+    setAttachments((prev) => [...prev, ...accepted.slice(0, Math.max(room, 0)).map(createPendingAttachment)]);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    setAttachments([]);
+  };
+
+  // Messages go through the persistent outbox so nothing typed is lost if
+  // the upload or insert fails; it retries with backoff until it succeeds
+  const sendMessage = () => {
+    if ((!newMessage.trim() && attachments.length === 0) || !user || !selectedUserId) return;
+
+    stopTyping();
+    enqueue({
+      content: attachments.length > 0 ? newMessage.trim() : newMessage,
+      replyToId: replyingTo?.id ?? null,
+      files: attachments.map((a) => a.file)
+    });
+
+    setNewMessage('');
+    setReplyingTo(null);
+    clearAttachments();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -253,129 +420,265 @@ export const ChatWindow = ({ selectedUserId, selectedUserName }: ChatWindowProps
 
   return (
     <div className="h-full flex flex-col bg-gradient-to-br from-gray-900/30 to-violet-900/30">
-      <div className="bg-gray-800/50 backdrop-blur-sm p-4 border-b border-violet-500/20">
-        <h2 className="text-xl font-semibold text-white">{selectedUserName}</h2>
+      {/* Clickable Header */}
+      <div className="bg-gray-800/50 backdrop-blur-sm border-b border-violet-500/20 flex items-center">
+        <button
+          onClick={() => setShowChatDetails(true)}
+          className="flex-1 p-4 text-left hover:bg-violet-500/10 transition-all flex items-center justify-between group"
+        >
+          <div>
+            <h2 className="text-xl font-semibold text-white">{selectedUserName}</h2>
+            {typingNames.length > 0 ? (
+              <p className="text-sm text-violet-300 italic">{formatTypingText(typingNames)}</p>
+            ) : (
+              <p className="text-sm text-gray-400">{formatLastSeen(getPresence(selectedUserId))}</p>
+            )}
+          </div>
+          <Info size={20} className="text-gray-400 group-hover:text-violet-400 transition-colors" />
+        </button>
+        <div className="flex items-center gap-1 px-3">
+          <button
+            onClick={() => (isBlocked ? unblock(selectedUserId) : block(selectedUserId, selectedUserName))}
+            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+            title={isBlocked ? 'Unblock' : 'Block'}
+          >
+            <Ban size={20} />
+          </button>
+          <button
+            onClick={() => setReporting({})}
+            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+            title="Report"
+          >
+            <Flag size={20} />
+          </button>
+        </div>
       </div>
 
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasMore && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+          </div>
+        )}
         {messages.map((message) => {
           const isOwn = message.sender_id === user?.uid;
           return (
-            <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
-              <div className="max-w-md">
-                <div
-                  className={`px-4 py-2 rounded-2xl ${
-                    isOwn
-                      ? 'bg-gradient-to-r from-violet-600 to-purple-600 text-white'
-                      : 'bg-gray-800 text-white'
-                  }`}
-                >
-                  {message.message_type === 'file' && message.files?.[0] ? (
-                    <div>
-                      <a
-                        href={message.files[0].firebase_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 hover:underline"
-                      >
-                        <Paperclip size={16} />
-                        <span className="text-sm">{message.files[0].file_name}</span>
-                      </a>
-                      {message.files[0].file_type.startsWith('image/') && (
-                        <img
-                          src={message.files[0].firebase_url}
-                          alt={message.files[0].file_name}
-                          className="mt-2 rounded-lg max-w-full"
+            <div
+              key={message.id}
+              id={`message-${message.id}`}
+              className={`flex ${isOwn ? 'justify-end' : 'justify-start'} rounded-lg transition-colors ${
+                highlightedMessageId === message.id ? 'bg-violet-500/20' : ''
+              }`}
+            >
+              <div className={`max-w-md flex items-start gap-1 group ${isOwn ? 'flex-row-reverse' : ''}`}>
+                <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                  <div
+                    className={`px-4 py-2 rounded-2xl ${
+                      isOwn
+                        ? 'bg-gradient-to-r from-violet-600 to-purple-600 text-white'
+                        : 'bg-gray-800 text-white'
+                    }`}
+                  >
+                    {message.reply_to_id && !message.deleted_at && (
+                      <ReplyQuote
+                        message={getQuotedMessage(message)}
+                        senderName={getQuoteSenderName(getQuotedMessage(message))}
+                        onClick={() => scrollToMessage(message.reply_to_id!)}
+                      />
+                    )}
+                    {message.deleted_at ? (
+                      <p className="italic opacity-70">This message was deleted</p>
+                    ) : editingMessageId === message.id ? (
+                      <div className="space-y-2">
+                        <textarea
+                          value={editText}
+                          onChange={(e) => setEditText(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' && !e.shiftKey) {
+                              e.preventDefault();
+                              saveEdit();
+                            } else if (e.key === 'Escape') {
+                              cancelEditing();
+                            }
+                          }}
+                          rows={2}
+                          autoFocus
+                          className="w-64 px-2 py-1 bg-gray-900/50 border border-violet-300/30 rounded text-white focus:outline-none resize-none"
                         />
-                      )}
-                    </div>
-                  ) : (
-                    <p className="whitespace-pre-wrap break-words">{message.content}</p>
-                  )}
-                  <div className={`flex items-center justify-end gap-1 mt-1 text-xs ${isOwn ? 'text-violet-200' : 'text-gray-400'}`}>
-                    <span>{new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
-                    {isOwn && (
-                      message.read ? (
-                        <CheckCheck size={14} className="text-blue-400" />
-                      ) : (
-                        <Check size={14} />
-                      )
+                        <div className="flex justify-end gap-2 text-xs">
+                          <button onClick={cancelEditing} className="px-2 py-1 rounded hover:bg-white/10">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={saveEdit}
+                            disabled={!editText.trim()}
+                            className="px-2 py-1 rounded bg-white/20 hover:bg-white/30 disabled:opacity-50"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      </div>
+                    ) : message.message_type === 'file' && message.files?.length ? (
+                      <div>
+                        <MessageAttachments files={message.files} />
+                        {getCaption(message.content, message.files) && (
+                          <p className="whitespace-pre-wrap break-words mt-2">{getCaption(message.content, message.files)}</p>
+                        )}
+                      </div>
+                    ) : (
+                      <p className="whitespace-pre-wrap break-words">{message.content}</p>
                     )}
+                    <div className={`flex items-center justify-end gap-1 mt-1 text-xs ${isOwn ? 'text-violet-200' : 'text-gray-400'}`}>
+                      {message.edited_at && !message.deleted_at && <span className="italic">edited</span>}
+                      <span>{new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                      {isOwn && <DeliveryStatusIcon message={message} />}
+                    </div>
                   </div>
+                  <ReactionBar
+                    reactions={message.reactions || []}
+                    currentUserId={user?.uid}
+                    getName={getReactorName}
+                    onToggle={(emoji) => toggleReaction(message, emoji)}
+                  />
                 </div>
+                {!message.deleted_at && editingMessageId !== message.id && (
+                  <>
+                    <ReactionPicker isOwn={isOwn} onSelect={(emoji) => toggleReaction(message, emoji)} />
+                    <MessageActions
+                      isOwn={isOwn}
+                      messageType={message.message_type}
+                      createdAt={message.created_at}
+                      onReply={() => setReplyingTo(message)}
+                      onEdit={() => startEditing(message)}
+                      onDeleteForMe={() => deleteMessage(message.id, false)}
+                      onDeleteForEveryone={() => deleteMessage(message.id, true)}
+                      onInfo={() => setInfoMessageId(message.id)}
+                      onReport={() => setReporting({ message })}
+                    />
+                  </>
+                )}
               </div>
             </div>
           );
         })}
-        <div ref={messagesEndRef} />
+        {visiblePending.map((entry) => (
+          <PendingMessage
+            key={entry.id}
+            entry={entry}
+            quotedMessage={messages.find((m) => m.id === entry.replyToId)}
+            quoteSenderName={getQuoteSenderName(messages.find((m) => m.id === entry.replyToId))}
+            onRetry={() => retry(entry.id)}
+            onDiscard={() => discard(entry.id)}
+          />
+        ))}
+        {hasNewer && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+          </div>
+        )}
+        <div ref={endRef} />
       </div>
 
-      {selectedFile && (
-        <div className="px-4 py-2 bg-gray-800/50 border-t border-violet-500/20 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Paperclip size={16} className="text-violet-400" />
-            <span className="text-sm text-white">{selectedFile.name}</span>
-          </div>
+      {hasNewer && (
+        <div className="relative">
           <button
-            onClick={() => {
-              setSelectedFile(null);
-              if (fileInputRef.current) {
-                fileInputRef.current.value = '';
-              }
-            }}
-            className="text-gray-400 hover:text-white"
+            onClick={loadMessages}
+            className="absolute bottom-4 right-4 flex items-center gap-1 px-3 py-2 bg-violet-600 text-white text-sm rounded-full shadow-lg hover:bg-violet-700 transition-colors"
           >
-            <X size={20} />
+            <ArrowDown size={16} />
+            Jump to latest
           </button>
         </div>
       )}
 
-      {uploading && uploadProgress > 0 && (
-        <div className="px-4 py-2 bg-gray-800/50 border-t border-violet-500/20">
-          <div className="w-full bg-gray-700 rounded-full h-2">
-            <div
-              className="bg-gradient-to-r from-violet-600 to-purple-600 h-2 rounded-full transition-all"
-              style={{ width: `${uploadProgress}%` }}
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-1">Uploading... {Math.round(uploadProgress)}%</p>
+      {replyingTo && (
+        <div className="px-4 pt-2 bg-gray-800/50 border-t border-violet-500/20">
+          <ReplyQuote
+            message={replyingTo}
+            senderName={getQuoteSenderName(replyingTo)}
+            onCancel={() => setReplyingTo(null)}
+          />
         </div>
       )}
 
-      <div className="p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20">
-        <div className="flex gap-2">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleFileSelect}
-            className="hidden"
-            accept="image/*,.pdf,.doc,.docx,.zip"
-          />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={uploading}
-            className="p-3 bg-gray-700 text-violet-400 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
-          >
-            <Paperclip size={20} />
-          </button>
-          <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type a message..."
-            disabled={uploading}
-            className="flex-1 px-4 py-3 bg-gray-900/50 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all disabled:opacity-50"
-          />
+      <AttachmentTray attachments={attachments} onRemove={removeAttachment} />
+
+      {isBlocked ? (
+        <div className="p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20 flex items-center justify-between gap-4">
+          <p className="text-gray-400">You blocked {selectedUserName}. Unblock them to send messages.</p>
           <button
-            onClick={sendMessage}
-            disabled={uploading || (!newMessage.trim() && !selectedFile)}
-            className="p-3 bg-gradient-to-r from-violet-600 to-purple-600 text-white rounded-lg hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            onClick={() => unblock(selectedUserId)}
+            className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition-colors flex-shrink-0"
           >
-            <Send size={20} />
+            Unblock
           </button>
         </div>
-      </div>
+      ) : (
+        <div className="p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20">
+          <div className="flex gap-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              className="hidden"
+              multiple
+              accept="image/*,.pdf,.doc,.docx,.zip"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-3 bg-gray-700 text-violet-400 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              <Paperclip size={20} />
+            </button>
+            <input
+              type="text"
+              value={newMessage}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                if (e.target.value) {
+                  notifyTyping();
+                } else {
+                  stopTyping();
+                }
+              }}
+              onKeyPress={handleKeyPress}
+              placeholder={attachments.length > 0 ? 'Add a caption...' : 'Type a message...'}
+              className="flex-1 px-4 py-3 bg-gray-900/50 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all disabled:opacity-50"
+            />
+            <button
+              onClick={sendMessage}
+              disabled={!newMessage.trim() && attachments.length === 0}
+              className="p-3 bg-gradient-to-r from-violet-600 to-purple-600 text-white rounded-lg hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send size={20} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* Chat Details Modal */}
+      {showChatDetails && (
+        <ChatDetails
+          userId={selectedUserId}
+          userName={selectedUserName}
+          onClose={() => setShowChatDetails(false)}
+          onJumpToMessage={(messageId) => {
+            setShowChatDetails(false);
+            scrollToMessage(messageId);
+          }}
+        />
+      )}
+
+      {infoMessage && <MessageInfo message={infoMessage} onClose={() => setInfoMessageId(null)} />}
+
+      {reporting && (
+        <ReportDialog
+          userId={selectedUserId}
+          userName={selectedUserName}
+          message={reporting.message && { kind: 'dm', id: reporting.message.id, content: reporting.message.content }}
+          onClose={() => setReporting(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { MoreVertical, Pin, PinOff, Bell, BellOff, Archive, ArchiveRestore, Ban, Flag } from 'lucide-react';
+import { MUTED_FOREVER, isArchived, isMuted } from '../../services/conversations';
+import type { ConversationSettings, LastMessage } from '../../types/chat';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MUTE_OPTIONS = [
+  { label: 'For 1 hour', duration: HOUR_MS },
+  { label: 'For 8 hours', duration: 8 * HOUR_MS },
+  { label: 'For 1 week', duration: 7 * 24 * HOUR_MS },
+  { label: 'Until I turn it back on', duration: null }
+];
+
+interface ConversationMenuProps {
+  settings: ConversationSettings;
+  lastMessage?: LastMessage;
+  onChange: (fields: Partial<ConversationSettings>) => void;
+  // Only offered for DMs
+  blocked?: boolean;
+  onToggleBlock?: () => void;
+  onReport?: () => void;
+}
+
+export const ConversationMenu = ({
+  settings,
+  lastMessage,
+  onChange,
+  blocked,
+  onToggleBlock,
+  onReport
+}: ConversationMenuProps) => {
+  const [open, setOpen] = useState(false);
+  const [choosingMute, setChoosingMute] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const muted = isMuted(settings);
+  const archived = isArchived({ settings, lastMessage });
+
+  const run = (fields: Partial<ConversationSettings>) => {
+    setOpen(false);
+    setChoosingMute(false);
+    onChange(fields);
+  };
+
+  const runAction = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const itemClass = 'w-full px-3 py-2 text-left text-sm text-white hover:bg-violet-500/20 flex items-center gap-2';
+  const dangerClass = 'w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/20 flex items-center gap-2';
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => {
+          setOpen(!open);
+          setChoosingMute(false);
+        }}
+        className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Conversation options"
+      >
+        <MoreVertical size={16} />
+      </button>
+      {open && (
+        <div className="absolute top-6 right-0 z-20 w-52 bg-gray-800 border border-violet-500/30 rounded-lg shadow-xl py-1">
+          {choosingMute ? (
+            MUTE_OPTIONS.map(({ label, duration }) => (
+              <button
+                key={label}
+                onClick={() =>
+                  run({ muted_until: duration ? new Date(Date.now() + duration).toISOString() : MUTED_FOREVER })
+                }
+                className={itemClass}
+              >
+                {label}
+              </button>
+            ))
+          ) : (
+            <>
+              <button
+                onClick={() => run({ pinned_at: settings.pinned_at ? null : new Date().toISOString() })}
+                className={itemClass}
+              >
+                {settings.pinned_at ? <PinOff size={14} /> : <Pin size={14} />}
+                {settings.pinned_at ? 'Unpin' : 'Pin'}
+              </button>
+              {muted ? (
+                <button onClick={() => run({ muted_until: null })} className={itemClass}>
+                  <Bell size={14} />
+                  Unmute
+                </button>
+              ) : (
+                <button onClick={() => setChoosingMute(true)} className={itemClass}>
+                  <BellOff size={14} />
+                  Mute…
+                </button>
+              )}
+              <button
+                onClick={() => run({ archived_at: archived ? null : new Date().toISOString() })}
+                className={itemClass}
+              >
+                {archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                {archived ? 'Unarchive' : 'Archive'}
+              </button>
+              {onToggleBlock && (
+                <button
+                  onClick={() => runAction(onToggleBlock)}
+                  className={blocked ? itemClass : dangerClass}
+                >
+                  <Ban size={14} />
+                  {blocked ? 'Unblock' : 'Block'}
+                </button>
+              )}
+              {onReport && (
+                <button onClick={() => runAction(onReport)} className={dangerClass}>
+                  <Flag size={14} />
+                  Report
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
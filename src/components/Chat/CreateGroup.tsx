@@ -1,14 +1,9 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../../config/supabase';
+import { profileService } from '../../services/profiles';
+import { groupService } from '../../services/groups';
 import { useAuth } from '../../contexts/AuthContext';
 import { X, UserPlus, Check } from 'lucide-react';
-
-interface Profile {
-  id: string;
-  display_name: string;
-  email: string;
-  avatar_url?: string;
-}
+import type { Profile } from '../../types/chat';
 
 interface CreateGroupProps {
   onClose: () => void;
@@ -31,16 +26,10 @@ export const CreateGroup = ({ onClose, onGroupCreated }: CreateGroupProps) => {
   const loadUsers = async () => {
     if (!user) return;
 
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('id, display_name, email, avatar_url')
-      .neq('id', user.uid)
-      .order('display_name', { ascending: true });
-
-    if (error) {
+    try {
+      setUsers(await profileService.listOtherProfiles(user.uid));
+    } catch (error) {
       console.error('Error loading users:', error);
-    } else {
-      setUsers(data || []);
     }
     setLoadingUsers(false);
   };
@@ -65,38 +54,7 @@ export const CreateGroup = ({ onClose, onGroupCreated }: CreateGroupProps) => {
     setLoading(true);
 
     try {
-      // Create group
-      const { data: groupData, error: groupError } = await supabase
-        .from('groups')
-        .insert({
-          name: groupName,
-          description: description,
-          created_by: user.uid
-        })
-        .select()
-        .single();
-
-      if (groupError) throw groupError;
-
-      // Add creator as admin
-      await supabase.from('group_members').insert({
-        group_id: groupData.id,
-        user_id: user.uid,
-        role: 'admin'
-      });
-
-      // Add selected members
-      const memberInserts = Array.from(selectedUsers).map(userId => ({
-        group_id: groupData.id,
-        user_id: userId,
-        role: 'member'
-      }));
-
-      const { error: membersError } = await supabase
-        .from('group_members')
-        .insert(memberInserts);
-
-      if (membersError) throw membersError;
+      await groupService.createGroup(groupName, description, Array.from(selectedUsers));
 
       alert('Group created successfully!');
       onGroupCreated();
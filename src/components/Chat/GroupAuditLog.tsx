@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { EVENTS_PAGE_SIZE, describeGroupEvent, groupService } from '../../services/groups';
+import { useAuth } from '../../contexts/AuthContext';
+import type { GroupEvent, GroupEventType, GroupMember } from '../../types/chat';
+
+const CATEGORIES: { label: string; types: GroupEventType[] }[] = [
+  { label: 'All changes', types: [] },
+  {
+    label: 'Group info',
+    types: ['created', 'renamed', 'description_changed', 'avatar_changed', 'posting_changed']
+  },
+  { label: 'Members', types: ['member_added', 'member_joined', 'member_removed', 'member_left'] },
+  { label: 'Roles', types: ['role_changed'] }
+];
+
+interface GroupAuditLogProps {
+  groupId: string;
+  members: GroupMember[];
+}
+
+// Filterable history of a group's changes, for admins
+export const GroupAuditLog = ({ groupId, members }: GroupAuditLogProps) => {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<GroupEvent[]>([]);
+  const [categoryIndex, setCategoryIndex] = useState(0);
+  const [memberId, setMemberId] = useState('');
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const loadEvents = useCallback(async (before?: string) => {
+    setLoading(true);
+    try {
+      const page = await groupService.listEvents(groupId, {
+        types: CATEGORIES[categoryIndex].types,
+        userId: memberId || undefined,
+        before
+      });
+      setEvents((prev) => (before ? [...prev, ...page] : page));
+      setHasMore(page.length === EVENTS_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+    }
+    setLoading(false);
+  }, [groupId, categoryIndex, memberId]);
+
+  useEffect(() => {
+    setEvents([]);
+    loadEvents();
+  }, [loadEvents]);
+
+  const selectClass =
+    'flex-1 px-3 py-2 bg-gray-800 border border-violet-500/30 rounded-lg text-white focus:outline-none focus:border-violet-500';
+
+  return (
+    <div className="bg-gray-900/50 border border-violet-500/30 rounded-lg p-4 space-y-4">
+      <h4 className="text-lg font-semibold text-white flex items-center gap-2">
+        <History size={20} />
+        Audit Log
+      </h4>
+
+      <div className="flex flex-wrap gap-2">
+        <select value={categoryIndex} onChange={(e) => setCategoryIndex(Number(e.target.value))} className={selectClass}>
+          {CATEGORIES.map(({ label }, index) => (
+            <option key={label} value={index}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select value={memberId} onChange={(e) => setMemberId(e.target.value)} className={selectClass}>
+          <option value="">Everyone</option>
+          {members.map((member) => (
+            <option key={member.user_id} value={member.user_id}>
+              {member.display_name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {events.length === 0 && !loading ? (
+        <p className="text-gray-400 text-sm">No matching changes</p>
+      ) : (
+        <div className="max-h-64 overflow-y-auto space-y-2">
+          {events.map((event) => (
+            <div key={event.id} className="p-3 bg-gray-800/50 rounded-lg">
+              <p className="text-sm text-white">{describeGroupEvent(event, user?.uid)}</p>
+              <p className="text-xs text-gray-400">{new Date(event.created_at).toLocaleString()}</p>
+            </div>
+          ))}
+          {hasMore && (
+            <button
+              onClick={() => loadEvents(events[events.length - 1].created_at)}
+              disabled={loading}
+              className="w-full py-2 text-sm text-violet-400 hover:text-violet-300 transition-colors disabled:opacity-50"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
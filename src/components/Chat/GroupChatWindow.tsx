@@ -1,103 +1,169 @@
-import { useEffect, useState, useRef } from 'react';
-import { supabase } from '../../config/supabase';
+import { Fragment, useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import { filterMentionSuggestions, getMentionQuery, getMentionedIds, messageService } from '../../services/messages';
+import { groupService } from '../../services/groups';
+import { profileService } from '../../services/profiles';
 import { useAuth } from '../../contexts/AuthContext';
-import { Send, Paperclip, Users, X, Info } from 'lucide-react';
-import { ref as storageRef, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { storage } from '../../config/firebase';
+import { Send, Paperclip, Users, Info, ArrowDown } from 'lucide-react';
+import { useTypingIndicator, formatTypingText } from '../../hooks/useTypingIndicator';
 import { GroupDetails } from './GroupDetails';
-
-interface GroupMessage {
-  id: string;
-  group_id: string;
-  sender_id: string;
-  content: string;
-  message_type: string;
-  created_at: string;
-  sender?: {
-    display_name: string;
-    avatar_url?: string;
-  };
-  files?: {
-    file_name: string;
-    file_type: string;
-    firebase_url: string;
-  }[];
-}
+import { MessageActions } from './MessageActions';
+import { PendingMessage } from './PendingMessage';
+import { ReportDialog } from './ReportDialog';
+import { GroupEventNotice } from './GroupEvents';
+import { MentionSuggestions, MentionText } from './Mentions';
+import { MessageAttachments, AttachmentTray, MAX_FILE_SIZE, MAX_ATTACHMENTS } from './Attachments';
+import { createPendingAttachment, getCaption, PendingAttachment } from '../../services/files';
+import { useScrollAnchor } from '../../hooks/useScrollAnchor';
+import { useOutbox } from '../../hooks/useOutbox';
+import type { OutboxEntry } from '../../services/outbox';
+import { ReplyQuote } from './ReplyQuote';
+import { ReactionBar, ReactionPicker } from './MessageReactions';
+import { ReadAvatars, SeenBy } from './ReadReceipts';
+import type {
+  DirectMessage,
+  GroupEvent,
+  GroupEventType,
+  GroupMessage,
+  GroupPermission,
+  ProfileSummary,
+  ReactionChange
+} from '../../types/chat';
+
+// Events after which the current user's permissions may have changed
+const PERMISSION_EVENTS: GroupEventType[] = ['role_changed', 'posting_changed', 'member_removed'];
 
 interface GroupChatWindowProps {
   selectedGroupId: string | null;
   selectedGroupName: string;
+  focusMessageId?: string | null;
+  onFocusHandled?: () => void;
+  onGroupClosed?: () => void;
 }
 
-export const GroupChatWindow = ({ selectedGroupId, selectedGroupName }: GroupChatWindowProps) => {
+export const GroupChatWindow = ({
+  selectedGroupId,
+  selectedGroupName,
+  focusMessageId,
+  onFocusHandled,
+  onGroupClosed
+}: GroupChatWindowProps) => {
   const [messages, setMessages] = useState<GroupMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
-  const [uploading, setUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([]);
   const [showGroupDetails, setShowGroupDetails] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [replyingTo, setReplyingTo] = useState<GroupMessage | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<GroupMessage | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [memberProfiles, setMemberProfiles] = useState<Map<string, ProfileSummary>>(new Map());
+  const [readMarkers, setReadMarkers] = useState<Map<string, string | null>>(new Map());
+  const [events, setEvents] = useState<GroupEvent[]>([]);
+  // Unknown until loaded, so the composer doesn't flash as read-only
+  const [permissions, setPermissions] = useState<GroupPermission[] | null>(null);
+  // Members picked from the suggestions, and the "@..." being typed
+  const [mentionedMembers, setMentionedMembers] = useState<ProfileSummary[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLInputElement>(null);
+  const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const loadingPageRef = useRef(false);
+  const loadTokenRef = useRef(0);
+  const pendingFocusRef = useRef<string | null>(null);
+  const hasNewerRef = useRef(false);
+  hasNewerRef.current = hasNewer;
+  // The returned row stands in for the realtime INSERT, which is de-duplicated by id
+  const handleSent = (entry: OutboxEntry, row: DirectMessage | GroupMessage) => {
+    if (hasNewerRef.current) return;
+
+    const sent = {
+      ...(row as GroupMessage),
+      files: entry.files.map((f) => ({ file_name: f.name, file_type: f.type, firebase_url: f.url || '' })),
+      reactions: []
+    };
+    setMessages((prev) => (prev.some((m) => m.id === sent.id) ? prev : [...prev, sent]));
+  };
+
+  const { pending, enqueue, retry, discard } = useOutbox('group', selectedGroupId, handleSent);
+  // Once the server row has arrived the outbox copy is redundant
+  const visiblePending = useMemo(
+    () => (hasNewer ? [] : pending.filter((entry) => !messages.some((m) => m.client_id === entry.id))),
+    [pending, messages, hasNewer]
+  );
+  // Each group change is shown before the first loaded message after it;
+  // changes outside the loaded window of history are left out
+  const { eventsBefore, trailingEvents } = useMemo(() => {
+    const eventsBefore = new Map<string, GroupEvent[]>();
+    const trailingEvents: GroupEvent[] = [];
+
+    events.forEach((event) => {
+      const happenedAt = new Date(event.created_at).getTime();
+      const next = messages.find((m) => new Date(m.created_at).getTime() > happenedAt);
+      if (!next) {
+        if (!hasNewer) trailingEvents.push(event);
+      } else if (next !== messages[0] || !hasMore) {
+        eventsBefore.set(next.id, [...(eventsBefore.get(next.id) || []), event]);
+      }
+    });
+
+    return { eventsBefore, trailingEvents };
+  }, [events, messages, hasMore, hasNewer]);
+  const scrollItems = useMemo(
+    () => [...messages, ...trailingEvents, ...visiblePending],
+    [messages, trailingEvents, visiblePending]
+  );
+  const { containerRef, endRef, preserveScroll } = useScrollAnchor(scrollItems, !hasNewer);
   const { user } = useAuth();
+  const { typingNames, notifyTyping, stopTyping } = useTypingIndicator('group', selectedGroupId);
 
   useEffect(() => {
+    setReplyingTo(null);
+    setEvents([]);
+    setPermissions(null);
     if (selectedGroupId && user) {
       loadMessages();
+      loadMembers();
+      loadEvents();
+      loadPermissions();
       updateLastReadAt();
-      
-      const channel = supabase
-        .channel(`group_messages_${selectedGroupId}`)
-        .on(
-          'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'group_messages',
-            filter: `group_id=eq.${selectedGroupId}`
-          },
-          async (payload) => {
-            const newMsg = payload.new as GroupMessage;
-            
-            const { data: senderData } = await supabase
-              .from('profiles')
-              .select('display_name, avatar_url')
-              .eq('id', newMsg.sender_id)
-              .single();
-            
-            newMsg.sender = senderData || undefined;
-            
-            if (newMsg.message_type === 'file') {
-              const { data: fileData } = await supabase
-                .from('group_files')
-                .select('file_name, file_type, firebase_url')
-                .eq('message_id', newMsg.id);
-              
-              newMsg.files = fileData || [];
+
+      const unsubscribeEvents = groupService.subscribeToEvents(selectedGroupId, (event) => {
+        setEvents((prev) => (prev.some((e) => e.id === event.id) ? prev : [...prev, event]));
+        if (PERMISSION_EVENTS.includes(event.event_type)) {
+          loadPermissions();
+        }
+      });
+      const unsubscribeMessages = messageService.subscribeToConversation('group', selectedGroupId, user.uid, {
+        onInsert: (newMsg) => {
+          // While browsing older history the tail isn't loaded; the message
+          // shows up once the user scrolls down or jumps to latest
+          if (hasNewerRef.current) return;
+
+          setMessages((prev) => {
+            if (prev.some(m => m.id === newMsg.id)) {
+              return prev;
             }
-            
-            setMessages((prev) => {
-              if (prev.some(m => m.id === newMsg.id)) {
-                return prev;
-              }
-              return [...prev, newMsg];
-            });
-            setTimeout(() => {
-              updateLastReadAt();
-            }, 100);
-          }
-        )
-        .subscribe();
+            return [...prev, newMsg];
+          });
+          setTimeout(() => {
+            updateLastReadAt();
+          }, 100);
+        },
+        onUpdate: applyMessageUpdate,
+        onReactionAdded: addReaction,
+        onReactionRemoved: removeReaction,
+        onHidden: removeMessage
+      });
 
       return () => {
-        supabase.removeChannel(channel);
+        unsubscribeEvents();
+        unsubscribeMessages();
       };
     }
   }, [selectedGroupId, user]);
 
-  useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
   useEffect(() => {
     return () => {
       if (selectedGroupId && user) {
@@ -106,147 +172,431 @@ export const GroupChatWindow = ({ selectedGroupId, selectedGroupName }: GroupCha
     };
   }, [selectedGroupId, user]);
 
-  const loadMessages = async () => {
+  useEffect(() => {
     if (!selectedGroupId) return;
 
-    const { data, error } = await supabase
-      .from('group_messages')
-      .select(`
-        *,
-        group_files (
-          file_name,
-          file_type,
-          firebase_url
-        )
-      `)
-      .eq('group_id', selectedGroupId)
-      .order('created_at', { ascending: true });
-
-    if (error) {
+    return groupService.subscribeToReadMarkers(selectedGroupId, (marker) => {
+      setReadMarkers((prev) => new Map(prev).set(marker.user_id, marker.last_read_at));
+      // New members aren't in the profile map yet
+      profileService.getSummary(marker.user_id).then((profile) => {
+        if (profile) {
+          setMemberProfiles((prev) => (prev.has(profile.id) ? prev : new Map(prev).set(profile.id, profile)));
+        }
+      });
+    });
+  }, [selectedGroupId]);
+
+  // Each member's avatar sits under the last loaded message they have read
+  const readersByMessage = useMemo(() => {
+    const byMessage = new Map<string, ProfileSummary[]>();
+    const last = messages[messages.length - 1];
+
+    readMarkers.forEach((readAt, memberId) => {
+      const profile = memberProfiles.get(memberId);
+      if (!readAt || !profile || memberId === user?.uid) return;
+
+      const readTime = new Date(readAt).getTime();
+      // Their position is past the loaded page
+      if (hasNewer && last && new Date(last.created_at).getTime() <= readTime) return;
+
+      const readUpTo = [...messages].reverse().find((m) => new Date(m.created_at).getTime() <= readTime);
+      if (readUpTo) {
+        byMessage.set(readUpTo.id, [...(byMessage.get(readUpTo.id) || []), profile]);
+      }
+    });
+
+    return byMessage;
+  }, [messages, readMarkers, memberProfiles, hasNewer, user]);
+
+  // Everyone but the sender, split by whether they have read up to `message`
+  const getSeenBy = (message: GroupMessage) => {
+    const seen: ProfileSummary[] = [];
+    const notSeen: ProfileSummary[] = [];
+    const sentAt = new Date(message.created_at).getTime();
+
+    readMarkers.forEach((readAt, memberId) => {
+      const profile = memberProfiles.get(memberId);
+      if (!profile || memberId === message.sender_id) return;
+      (readAt && new Date(readAt).getTime() >= sentAt ? seen : notSeen).push(profile);
+    });
+
+    return { seen, notSeen };
+  };
+
+  // One page of history in chronological order, strictly before or after `cursor`
+  const fetchPage = useCallback(async (direction: 'older' | 'newer', cursor?: GroupMessage) => {
+    if (!selectedGroupId || !user) return null;
+
+    try {
+      return await messageService.fetchPage('group', selectedGroupId, user.uid, direction, cursor);
+    } catch (error) {
       console.error('Error loading messages:', error);
-    } else {
-      const messagesWithSenders = await Promise.all(
-        (data || []).map(async (msg) => {
-          const { data: senderData } = await supabase
-            .from('profiles')
-            .select('display_name, avatar_url')
-            .eq('id', msg.sender_id)
-            .single();
-          
-          return {
-            ...msg,
-            sender: senderData,
-            files: msg.group_files || []
-          };
-        })
-      );
-      
-      setMessages(messagesWithSenders);
+      return null;
     }
+  }, [selectedGroupId, user]);
+
+  const loadMessages = async () => {
+    if (!selectedGroupId) return;
+
+    const token = ++loadTokenRef.current;
+    const result = await fetchPage('older');
+    if (!result || token !== loadTokenRef.current) return;
+
+    setMessages(result.messages);
+    setHasMore(result.full);
+    setHasNewer(false);
   };
 
-  const updateLastReadAt = async () => {
+  // Loads the pages on either side of a message that isn't in the current window
+  const jumpToMessage = useCallback(async (messageId: string) => {
     if (!selectedGroupId || !user) return;
 
-    const { error } = await supabase
-      .from('group_members')
-      .update({ last_read_at: new Date().toISOString() })
-      .eq('group_id', selectedGroupId)
-      .eq('user_id', user.uid);
+    const token = ++loadTokenRef.current;
+    let target: GroupMessage | null;
+    try {
+      target = await messageService.getMessage('group', selectedGroupId, user.uid, messageId);
+    } catch (error) {
+      console.error('Error loading message:', error);
+      return;
+    }
+    if (!target) return;
+
+    const [older, newer] = await Promise.all([fetchPage('older', target), fetchPage('newer', target)]);
+    if (!older || !newer || token !== loadTokenRef.current) return;
+
+    setMessages([...older.messages, target, ...newer.messages]);
+    setHasMore(older.full);
+    setHasNewer(newer.full);
+    pendingFocusRef.current = messageId;
+  }, [selectedGroupId, user, fetchPage]);
+
+  const loadOlderMessages = async () => {
+    if (!hasMore || loadingPageRef.current || messages.length === 0) return;
+
+    loadingPageRef.current = true;
+    const result = await fetchPage('older', messages[0]);
+    if (result) {
+      preserveScroll();
+      setMessages((prev) => [...result.messages.filter((m) => !prev.some((p) => p.id === m.id)), ...prev]);
+      setHasMore(result.full);
+    }
+    loadingPageRef.current = false;
+  };
+
+  const loadNewerMessages = async () => {
+    if (!hasNewer || loadingPageRef.current || messages.length === 0) return;
 
-    if (error) {
-      console.error('Error updating last read time:', error);
+    loadingPageRef.current = true;
+    const result = await fetchPage('newer', messages[messages.length - 1]);
+    if (result) {
+      setMessages((prev) => [...prev, ...result.messages.filter((m) => !prev.some((p) => p.id === m.id))]);
+      setHasNewer(result.full);
     }
+    loadingPageRef.current = false;
   };
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    if (scrollTop < 100) {
+      loadOlderMessages();
+    } else if (scrollHeight - scrollTop - clientHeight < 100) {
+      loadNewerMessages();
+    }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      if (file.size > 500 * 1024 * 1024) {
-        alert('File size must be less than 500MB');
-        return;
-      }
-      setSelectedFile(file);
+  const loadMembers = async () => {
+    if (!selectedGroupId) return;
+
+    try {
+      const markers = await groupService.listReadMarkers(selectedGroupId);
+      setMemberProfiles(await profileService.getSummaries(markers.map((m) => m.user_id)));
+      setReadMarkers(new Map(markers.map((m) => [m.user_id, m.last_read_at])));
+    } catch (error) {
+      console.error('Error loading members:', error);
     }
   };
 
-  const uploadFile = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const fileRef = storageRef(storage, `group_messages/${Date.now()}_${file.name}`);
-      const uploadTask = uploadBytesResumable(fileRef, file);
+  const loadEvents = async () => {
+    if (!selectedGroupId) return;
 
-      uploadTask.on(
-        'state_changed',
-        (snapshot) => {
-          const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress(progress);
-        },
-        (error) => {
-          reject(error);
-        },
-        async () => {
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          resolve(downloadURL);
-        }
-      );
-    });
+    try {
+      const latest = await groupService.listEvents(selectedGroupId);
+      setEvents(latest.reverse());
+    } catch (error) {
+      console.error('Error loading group events:', error);
+    }
   };
 
-  const sendMessage = async () => {
-    if ((!newMessage.trim() && !selectedFile) || !user || !selectedGroupId) return;
+  const loadPermissions = async () => {
+    if (!selectedGroupId) return;
 
-    setUploading(true);
     try {
-      let fileUrl = '';
-      let messageType = 'text';
+      setPermissions(await groupService.getPermissions(selectedGroupId));
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+    }
+  };
 
-      if (selectedFile) {
-        fileUrl = await uploadFile(selectedFile);
-        messageType = 'file';
-      }
+  const updateLastReadAt = async () => {
+    if (!selectedGroupId || !user) return;
 
-      const messageData = {
-        group_id: selectedGroupId,
-        sender_id: user.uid,
-        content: selectedFile ? selectedFile.name : newMessage,
-        message_type: messageType
-      };
+    try {
+      await groupService.markGroupRead(selectedGroupId);
+    } catch (error) {
+      console.error('Error updating last read time:', error);
+    }
+  };
+
+  // Realtime UPDATE payloads don't carry the sender or files, so merge instead of replacing
+  const applyMessageUpdate = (updatedMsg: GroupMessage) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === updatedMsg.id
+          ? { ...msg, ...updatedMsg, sender: msg.sender, files: updatedMsg.deleted_at ? [] : msg.files }
+          : msg
+      )
+    );
+  };
+
+  const removeMessage = (messageId: string) => {
+    setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
+  };
+
+  const startEditing = (message: GroupMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
 
-      const { data: messageResult, error: messageError } = await supabase
-        .from('group_messages')
-        .insert(messageData)
-        .select()
-        .single();
-
-      if (messageError) throw messageError;
-
-      if (selectedFile && fileUrl) {
-        await supabase.from('group_files').insert({
-          message_id: messageResult.id,
-          file_name: selectedFile.name,
-          file_type: selectedFile.type,
-          file_size: selectedFile.size,
-          firebase_url: fileUrl
-        });
+  const cancelEditing = () => {
+    setEditingMessageId(null);
+    setEditText('');
+  };
+
+  const saveEdit = async () => {
+    if (!editingMessageId || !editText.trim()) return;
+
+    try {
+      applyMessageUpdate(await messageService.edit('group', editingMessageId, editText.trim()));
+      cancelEditing();
+    } catch (error) {
+      console.error('Error editing message:', error);
+      alert('Failed to edit message');
+    }
+  };
+
+  const deleteMessage = async (messageId: string, forEveryone: boolean) => {
+    if (forEveryone && !confirm('Delete this message for everyone?')) return;
+
+    try {
+      const updated = await messageService.remove('group', messageId, forEveryone);
+      if (forEveryone) {
+        applyMessageUpdate(updated);
+      } else {
+        removeMessage(messageId);
       }
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      alert('Failed to delete message');
+    }
+  };
 
-      setNewMessage('');
-      setSelectedFile(null);
-      setUploadProgress(0);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
+  const addReaction = (reaction: ReactionChange) => {
+    setMessages((prev) =>
+      prev.map((msg) => {
+        if (msg.id !== reaction.message_id) return msg;
+        const reactions = msg.reactions || [];
+        if (reactions.some((r) => r.user_id === reaction.user_id && r.emoji === reaction.emoji)) {
+          return msg;
+        }
+        return { ...msg, reactions: [...reactions, { user_id: reaction.user_id, emoji: reaction.emoji }] };
+      })
+    );
+  };
+
+  // DELETE payloads can't be filtered server-side, so unknown message ids are simply ignored
+  const removeReaction = (reaction: ReactionChange) => {
+    setMessages((prev) =>
+      prev.map((msg) =>
+        msg.id === reaction.message_id
+          ? {
+              ...msg,
+              reactions: (msg.reactions || []).filter(
+                (r) => !(r.user_id === reaction.user_id && r.emoji === reaction.emoji)
+              )
+            }
+          : msg
+      )
+    );
+  };
+
+  const toggleReaction = async (message: GroupMessage, emoji: string) => {
+    if (!user) return;
+
+    const reaction = { message_id: message.id, user_id: user.uid, emoji };
+    const alreadyReacted = message.reactions?.some((r) => r.user_id === user.uid && r.emoji === emoji);
+
+    if (alreadyReacted) {
+      removeReaction(reaction);
+      try {
+        await messageService.removeReaction('group', reaction);
+      } catch (error) {
+        console.error('Error removing reaction:', error);
+        addReaction(reaction);
+      }
+    } else {
+      addReaction(reaction);
+      try {
+        await messageService.addReaction('group', reaction, message.group_id);
+      } catch (error) {
+        console.error('Error adding reaction:', error);
+        removeReaction(reaction);
       }
+    }
+  };
 
-      updateLastReadAt();
-    } catch (error) {
-      console.error('Error sending message:', error);
-      alert('Failed to send message');
-    } finally {
-      setUploading(false);
+  const getReactorName = (userId: string) => memberProfiles.get(userId)?.display_name || 'Unknown';
+  const getMemberName = (userId: string) => memberProfiles.get(userId)?.display_name;
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const element = document.getElementById(`message-${messageId}`);
+    if (!element) {
+      jumpToMessage(messageId);
+      return;
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(messageId);
+    setTimeout(() => setHighlightedMessageId(null), 2000);
+  }, [jumpToMessage]);
+
+  useEffect(() => {
+    if (focusMessageId && selectedGroupId && user) {
+      jumpToMessage(focusMessageId);
+      onFocusHandled?.();
+    }
+  }, [focusMessageId, selectedGroupId, user, jumpToMessage, onFocusHandled]);
+
+  useEffect(() => {
+    if (pendingFocusRef.current) {
+      scrollToMessage(pendingFocusRef.current);
+      pendingFocusRef.current = null;
+    }
+  }, [messages, scrollToMessage]);
+
+  // Prefer the live copy so edits and deletes of the original show up in the quote
+  const getQuotedMessage = (message: GroupMessage) =>
+    messages.find((m) => m.id === message.reply_to_id) || message.reply_to;
+
+  const getQuoteSenderName = (quoted: { sender_id: string; sender?: { display_name: string } | null } | null | undefined) =>
+    quoted?.sender_id === user?.uid ? 'You' : quoted?.sender?.display_name || 'Unknown';
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+
+    const tooLarge = files.filter((file) => file.size > MAX_FILE_SIZE);
+    if (tooLarge.length > 0) {
+      alert(`File size must be less than 500MB: ${tooLarge.map((file) => file.name).join(', ')}`);
+    }
+
+    const accepted = files.filter((file) => file.size <= MAX_FILE_SIZE);
+    const room = MAX_ATTACHMENTS - attachments.length;
+    if (accepted.length > room) {
+      alert(`You can attach up to ${MAX_ATTACHMENTS} files per message`);
+    }
+
+    setAttachments((prev) => [...prev, ...accepted.slice(0, Math.max(room, 0)).map(createPendingAttachment)]);
+  };
+
+  const removeAttachment = (id: string) => {
+    setAttachments((prev) => {
+      const removed = prev.find((a) => a.id === id);
+      if (removed?.previewUrl) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((a) => a.id !== id);
+    });
+  };
+
+  const clearAttachments = () => {
+    attachments.forEach((a) => a.previewUrl && URL.revokeObjectURL(a.previewUrl));
+    setAttachments([]);
+  };
+
+  // Messages go through the persistent outbox so nothing typed is lost if
+  // the upload or insert fails; it retries with backoff until it succeeds
+  const sendMessage = () => {
+    if ((!newMessage.trim() && attachments.length === 0) || !user || !selectedGroupId) return;
+
+    const content = attachments.length > 0 ? newMessage.trim() : newMessage;
+    stopTyping();
+    enqueue({
+      content,
+      replyToId: replyingTo?.id ?? null,
+      files: attachments.map((a) => a.file),
+      mentions: getMentionedIds(content, mentionedMembers)
+    });
+
+    setNewMessage('');
+    setMentionedMembers([]);
+    setMentionQuery(null);
+    setReplyingTo(null);
+    clearAttachments();
+    updateLastReadAt();
+  };
+
+  const mentionSuggestions = useMemo(
+    () =>
+      mentionQuery
+        ? filterMentionSuggestions(
+            [...memberProfiles.values()].filter((member) => member.id !== user?.uid),
+            mentionQuery.query
+          )
+        : [],
+    [mentionQuery, memberProfiles, user]
+  );
+
+  const handleComposerChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setNewMessage(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length));
+    setActiveSuggestion(0);
+    if (e.target.value) {
+      notifyTyping();
+    } else {
+      stopTyping();
+    }
+  };
+
+  // Replaces the "@..." being typed with the member's name
+  const insertMention = (member: ProfileSummary) => {
+    if (!mentionQuery) return;
+
+    const input = composerRef.current;
+    const end = input?.selectionStart ?? newMessage.length;
+    const inserted = `@${member.display_name} `;
+    const cursor = mentionQuery.start + inserted.length;
+
+    setNewMessage(newMessage.slice(0, mentionQuery.start) + inserted + newMessage.slice(end));
+    setMentionedMembers((prev) => (prev.some((m) => m.id === member.id) ? prev : [...prev, member]));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(cursor, cursor);
+    });
+  };
+
+  // Runs before handleKeyPress so Enter picks a suggestion instead of sending
+  const handleComposerKeyDown = (e: React.KeyboardEvent) => {
+    if (mentionSuggestions.length === 0) return;
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveSuggestion((prev) => (prev + step + mentionSuggestions.length) % mentionSuggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      insertMention(mentionSuggestions[Math.min(activeSuggestion, mentionSuggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      setMentionQuery(null);
     }
   };
 
@@ -278,144 +628,257 @@ export const GroupChatWindow = ({ selectedGroupId, selectedGroupName }: GroupCha
         >
           <div className="flex items-center gap-2">
             <Users size={24} className="text-violet-400" />
-            <h2 className="text-xl font-semibold text-white">{selectedGroupName}</h2>
+            <div>
+              <h2 className="text-xl font-semibold text-white">{selectedGroupName}</h2>
+              {typingNames.length > 0 && (
+                <p className="text-sm text-violet-300 italic">{formatTypingText(typingNames)}</p>
+              )}
+            </div>
           </div>
           <Info size={20} className="text-gray-400 group-hover:text-violet-400 transition-colors" />
         </button>
       </div>
 
       {/* Messages Area */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {hasMore && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+          </div>
+        )}
         {messages.map((message) => {
           const isOwn = message.sender_id === user?.uid;
           return (
-            <div key={message.id} className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}>
-              <div className="max-w-md">
-                {!isOwn && (
-                  <div className="flex items-center gap-2 mb-1">
-                    <div className="w-6 h-6 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white text-xs font-semibold overflow-hidden">
-                      {message.sender?.avatar_url ? (
-                        <img
-                          src={message.sender.avatar_url}
-                          alt={message.sender.display_name}
-                          className="w-full h-full object-cover"
-                        />
-                      ) : (
-                        message.sender?.display_name?.charAt(0).toUpperCase()
-                      )}
+            <Fragment key={message.id}>
+              {eventsBefore.get(message.id)?.map((event) => (
+                <GroupEventNotice key={event.id} event={event} currentUserId={user?.uid} />
+              ))}
+              <div
+                id={`message-${message.id}`}
+                className={`flex ${isOwn ? 'justify-end' : 'justify-start'} rounded-lg transition-colors ${
+                  highlightedMessageId === message.id ? 'bg-violet-500/20' : ''
+                }`}
+              >
+                <div className="max-w-md">
+                  {!isOwn && (
+                    <div className="flex items-center gap-2 mb-1">
+                      <div className="w-6 h-6 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white text-xs font-semibold overflow-hidden">
+                        {message.sender?.avatar_url ? (
+                          <img
+                            src={message.sender.avatar_url}
+                            alt={message.sender.display_name}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          message.sender?.display_name?.charAt(0).toUpperCase()
+                        )}
+                      </div>
+                      <span className="text-xs text-gray-400">{message.sender?.display_name}</span>
                     </div>
-                    <span className="text-xs text-gray-400">{message.sender?.display_name}</span>
-                  </div>
-                )}
-                <div
-                  className={`px-4 py-2 rounded-2xl ${
-                    isOwn
-                      ? 'bg-gradient-to-r from-violet-600 to-purple-600 text-white'
-                      : 'bg-gray-800 text-white'
-                  }`}
-                >
-                  {message.message_type === 'file' && message.files?.[0] ? (
-                    <div>
-                      <a
-                        href={message.files[0].firebase_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="flex items-center gap-2 hover:underline"
+                  )}
+                  <div className={`flex items-start gap-1 group ${isOwn ? 'flex-row-reverse' : ''}`}>
+                    <div className={`flex flex-col ${isOwn ? 'items-end' : 'items-start'}`}>
+                      <div
+                        className={`px-4 py-2 rounded-2xl ${
+                          isOwn
+                            ? 'bg-gradient-to-r from-violet-600 to-purple-600 text-white'
+                            : 'bg-gray-800 text-white'
+                        }`}
                       >
-                        <Paperclip size={16} />
-                        <span className="text-sm">{message.files[0].file_name}</span>
-                      </a>
-                      {message.files[0].file_type.startsWith('image/') && (
-                        <img
-                          src={message.files[0].firebase_url}
-                          alt={message.files[0].file_name}
-                          className="mt-2 rounded-lg max-w-full"
-                        />
-                      )}
+                        {message.reply_to_id && !message.deleted_at && (
+                          <ReplyQuote
+                            message={getQuotedMessage(message)}
+                            senderName={getQuoteSenderName(getQuotedMessage(message))}
+                            onClick={() => scrollToMessage(message.reply_to_id!)}
+                          />
+                        )}
+                        {message.deleted_at ? (
+                          <p className="italic opacity-70">This message was deleted</p>
+                        ) : editingMessageId === message.id ? (
+                          <div className="space-y-2">
+                            <textarea
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              onKeyDown={(e) => {
+                                if (e.key === 'Enter' && !e.shiftKey) {
+                                  e.preventDefault();
+                                  saveEdit();
+                                } else if (e.key === 'Escape') {
+                                  cancelEditing();
+                                }
+                              }}
+                              rows={2}
+                              autoFocus
+                              className="w-64 px-2 py-1 bg-gray-900/50 border border-violet-300/30 rounded text-white focus:outline-none resize-none"
+                            />
+                            <div className="flex justify-end gap-2 text-xs">
+                              <button onClick={cancelEditing} className="px-2 py-1 rounded hover:bg-white/10">
+                                Cancel
+                              </button>
+                              <button
+                                onClick={saveEdit}
+                                disabled={!editText.trim()}
+                                className="px-2 py-1 rounded bg-white/20 hover:bg-white/30 disabled:opacity-50"
+                              >
+                                Save
+                              </button>
+                            </div>
+                          </div>
+                        ) : message.message_type === 'file' && message.files?.length ? (
+                          <div>
+                            <MessageAttachments files={message.files} />
+                            {getCaption(message.content, message.files) && (
+                              <MentionText
+                                content={getCaption(message.content, message.files)}
+                                mentions={message.mentions}
+                                getName={getMemberName}
+                                currentUserId={user?.uid}
+                                isOwn={isOwn}
+                                className="whitespace-pre-wrap break-words mt-2"
+                              />
+                            )}
+                          </div>
+                        ) : (
+                          <MentionText
+                            content={message.content}
+                            mentions={message.mentions}
+                            getName={getMemberName}
+                            currentUserId={user?.uid}
+                            isOwn={isOwn}
+                            className="whitespace-pre-wrap break-words"
+                          />
+                        )}
+                        <p className={`text-xs mt-1 ${isOwn ? 'text-violet-200' : 'text-gray-400'}`}>
+                          {message.edited_at && !message.deleted_at && <span className="italic mr-1">edited</span>}
+                          {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </p>
+                      </div>
+                      <ReactionBar
+                        reactions={message.reactions || []}
+                        currentUserId={user?.uid}
+                        getName={getReactorName}
+                        onToggle={(emoji) => toggleReaction(message, emoji)}
+                      />
+                      {isOwn && !message.deleted_at && <SeenBy {...getSeenBy(message)} />}
+                      <ReadAvatars readers={readersByMessage.get(message.id) || []} isOwn={isOwn} />
                     </div>
-                  ) : (
-                    <p className="whitespace-pre-wrap break-words">{message.content}</p>
-                  )}
-                  <p className={`text-xs mt-1 ${isOwn ? 'text-violet-200' : 'text-gray-400'}`}>
-                    {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                  </p>
+                    {!message.deleted_at && editingMessageId !== message.id && (
+                      <>
+                        <ReactionPicker isOwn={isOwn} onSelect={(emoji) => toggleReaction(message, emoji)} />
+                        <MessageActions
+                          isOwn={isOwn}
+                          messageType={message.message_type}
+                          createdAt={message.created_at}
+                          onReply={() => setReplyingTo(message)}
+                          onEdit={() => startEditing(message)}
+                          onDeleteForMe={() => deleteMessage(message.id, false)}
+                          onDeleteForEveryone={() => deleteMessage(message.id, true)}
+                          onReport={() => setReportingMessage(message)}
+                        />
+                      </>
+                    )}
+                  </div>
                 </div>
               </div>
-            </div>
+            </Fragment>
           );
         })}
-        <div ref={messagesEndRef} />
+        {trailingEvents.map((event) => (
+          <GroupEventNotice key={event.id} event={event} currentUserId={user?.uid} />
+        ))}
+        {visiblePending.map((entry) => (
+          <PendingMessage
+            key={entry.id}
+            entry={entry}
+            quotedMessage={messages.find((m) => m.id === entry.replyToId)}
+            quoteSenderName={getQuoteSenderName(messages.find((m) => m.id === entry.replyToId))}
+            onRetry={() => retry(entry.id)}
+            onDiscard={() => discard(entry.id)}
+          />
+        ))}
+        {hasNewer && (
+          <div className="flex justify-center py-2">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+          </div>
+        )}
+        <div ref={endRef} />
       </div>
 
-      {/* Selected File Preview */}
-      {selectedFile && (
-        <div className="px-4 py-2 bg-gray-800/50 border-t border-violet-500/20 flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Paperclip size={16} className="text-violet-400" />
-            <span className="text-sm text-white">{selectedFile.name}</span>
-          </div>
+      {hasNewer && (
+        <div className="relative">
           <button
-            onClick={() => {
-              setSelectedFile(null);
-              if (fileInputRef.current) {
-                fileInputRef.current.value = '';
-              }
-            }}
-            className="text-gray-400 hover:text-white"
+            onClick={loadMessages}
+            className="absolute bottom-4 right-4 flex items-center gap-1 px-3 py-2 bg-violet-600 text-white text-sm rounded-full shadow-lg hover:bg-violet-700 transition-colors"
           >
-            <X size={20} />
+            <ArrowDown size={16} />
+            Jump to latest
           </button>
         </div>
       )}
 
-      {/* Upload Progress */}
-      {uploading && uploadProgress > 0 && (
-        <div className="px-4 py-2 bg-gray-800/50 border-t border-violet-500/20">
-          <div className="w-full bg-gray-700 rounded-full h-2">
-            <div
-              className="bg-gradient-to-r from-violet-600 to-purple-600 h-2 rounded-full transition-all"
-              style={{ width: `${uploadProgress}%` }}
-            />
-          </div>
-          <p className="text-xs text-gray-400 mt-1">Uploading... {Math.round(uploadProgress)}%</p>
+      {replyingTo && (
+        <div className="px-4 pt-2 bg-gray-800/50 border-t border-violet-500/20">
+          <ReplyQuote
+            message={replyingTo}
+            senderName={getQuoteSenderName(replyingTo)}
+            onCancel={() => setReplyingTo(null)}
+          />
         </div>
       )}
 
+      {/* Attachment Tray */}
+      <AttachmentTray attachments={attachments} onRemove={removeAttachment} />
+
       {/* Message Input */}
-      <div className="p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20">
-        <div className="flex gap-2">
-          <input
-            type="file"
-            ref={fileInputRef}
-            onChange={handleFileSelect}
-            className="hidden"
-            accept="image/*,.pdf,.doc,.docx,.zip"
-          />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            disabled={uploading}
-            className="p-3 bg-gray-700 text-violet-400 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
-          >
-            <Paperclip size={20} />
-          </button>
-          <input
-            type="text"
-            value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type a message..."
-            disabled={uploading}
-            className="flex-1 px-4 py-3 bg-gray-900/50 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all disabled:opacity-50"
-          />
-          <button
-            onClick={sendMessage}
-            disabled={uploading || (!newMessage.trim() && !selectedFile)}
-            className="p-3 bg-gradient-to-r from-violet-600 to-purple-600 text-white rounded-lg hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            <Send size={20} />
-          </button>
+      {permissions && !permissions.includes('post') ? (
+        <div className="p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20">
+          <p className="text-gray-400 text-center">You can't send messages to this group</p>
         </div>
-      </div>
+      ) : (
+        <div className="relative p-4 bg-gray-800/50 backdrop-blur-sm border-t border-violet-500/20">
+          {mentionSuggestions.length > 0 && (
+            <MentionSuggestions
+              suggestions={mentionSuggestions}
+              activeIndex={activeSuggestion}
+              onSelect={insertMention}
+            />
+          )}
+          <div className="flex gap-2">
+            <input
+              type="file"
+              ref={fileInputRef}
+              onChange={handleFileSelect}
+              className="hidden"
+              multiple
+              accept="image/*,.pdf,.doc,.docx,.zip"
+            />
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-3 bg-gray-700 text-violet-400 rounded-lg hover:bg-gray-600 transition-colors disabled:opacity-50"
+            >
+              <Paperclip size={20} />
+            </button>
+            <input
+              ref={composerRef}
+              type="text"
+              value={newMessage}
+              onChange={handleComposerChange}
+              onKeyDown={handleComposerKeyDown}
+              onKeyPress={handleKeyPress}
+              onBlur={() => setMentionQuery(null)}
+              placeholder={attachments.length > 0 ? 'Add a caption...' : 'Type a message...'}
+              className="flex-1 px-4 py-3 bg-gray-900/50 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all disabled:opacity-50"
+            />
+            <button
+              onClick={sendMessage}
+              disabled={!newMessage.trim() && attachments.length === 0}
+              className="p-3 bg-gradient-to-r from-violet-600 to-purple-600 text-white rounded-lg hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Send size={20} />
+            </button>
+          </div>
+        </div>
+      )}
 
       {/* Group Details Modal */}
       {showGroupDetails && selectedGroupId && (
@@ -426,6 +889,23 @@ export const GroupChatWindow = ({ selectedGroupId, selectedGroupName }: GroupCha
           onGroupUpdated={() => {
             // Refresh will happen automatically due to real-time subscriptions
           }}
+          onJumpToMessage={(messageId) => {
+            setShowGroupDetails(false);
+            scrollToMessage(messageId);
+          }}
+          onGroupClosed={() => {
+            setShowGroupDetails(false);
+            onGroupClosed?.();
+          }}
+        />
+      )}
+
+      {reportingMessage && (
+        <ReportDialog
+          userId={reportingMessage.sender_id}
+          userName={reportingMessage.sender?.display_name || 'Unknown'}
+          message={{ kind: 'group', id: reportingMessage.id, content: reportingMessage.content }}
+          onClose={() => setReportingMessage(null)}
         />
       )}
     </div>
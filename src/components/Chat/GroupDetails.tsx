@@ -1,48 +1,52 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '../../config/supabase';
+import { canManageMember, groupService } from '../../services/groups';
+import { profileService } from '../../services/profiles';
+import { fileService } from '../../services/files';
 import { useAuth } from '../../contexts/AuthContext';
-import { X, Edit2, UserPlus, Save, Trash2, Camera, Users, Crown, Shield, Check } from 'lucide-react';
-import { ref as storageRef, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { storage } from '../../config/firebase';
-
-interface GroupMember {
-  id: string;
-  user_id: string;
-  role: string;
-  display_name: string;
-  email: string;
-  avatar_url?: string;
-  online_status: boolean;
-}
-
-interface Profile {
-  id: string;
-  display_name: string;
-  email: string;
-  avatar_url?: string;
-}
+import { X, Edit2, UserPlus, Save, Trash2, Camera, Users, Crown, Shield, Check, LogOut } from 'lucide-react';
+import { SharedFiles } from './SharedFiles';
+import { InviteLinks } from './InviteLinks';
+import { GroupAuditLog } from './GroupAuditLog';
+import { PresenceDot } from './PresenceDot';
+import { usePresence, formatLastSeen } from '../../hooks/usePresence';
+import type { Group, GroupMember, GroupPermission, GroupRole, Profile } from '../../types/chat';
 
 interface GroupDetailsProps {
   groupId: string;
   groupName: string;
   onClose: () => void;
   onGroupUpdated: () => void;
+  onJumpToMessage: (messageId: string) => void;
+  // After the user left or deleted the group
+  onGroupClosed: () => void;
 }
 
-export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: GroupDetailsProps) => {
+export const GroupDetails = ({
+  groupId,
+  groupName,
+  onClose,
+  onGroupUpdated,
+  onJumpToMessage,
+  onGroupClosed
+}: GroupDetailsProps) => {
   const { user } = useAuth();
-  const [group, setGroup] = useState<any>(null);
+  const getPresence = usePresence();
+  const [group, setGroup] = useState<Group | null>(null);
   const [members, setMembers] = useState<GroupMember[]>([]);
   const [allUsers, setAllUsers] = useState<Profile[]>([]);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [permissions, setPermissions] = useState<GroupPermission[]>([]);
   const [loading, setLoading] = useState(true);
   const [editMode, setEditMode] = useState(false);
   const [addMemberMode, setAddMemberMode] = useState(false);
   const [selectedNewMembers, setSelectedNewMembers] = useState<Set<string>>(new Set());
+  const [choosingSuccessor, setChoosingSuccessor] = useState(false);
+  const [successorId, setSuccessorId] = useState('');
+  const [deleting, setDeleting] = useState(false);
   
   // Edit fields
   const [newGroupName, setNewGroupName] = useState('');
   const [newDescription, setNewDescription] = useState('');
+  const [newOnlyAdminsCanPost, setNewOnlyAdminsCanPost] = useState(false);
   const [newAvatarFile, setNewAvatarFile] = useState<File | null>(null);
   const [avatarPreview, setAvatarPreview] = useState('');
   const [uploading, setUploading] = useState(false);
@@ -51,7 +55,7 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
   useEffect(() => {
     loadGroupDetails();
     loadMembers();
-    checkAdminStatus();
+    loadPermissions();
   }, [groupId, user]);
 
   useEffect(() => {
@@ -61,87 +65,52 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
   }, [addMemberMode]);
 
   const loadGroupDetails = async () => {
-    const { data, error } = await supabase
-      .from('groups')
-      .select('*')
-      .eq('id', groupId)
-      .single();
-
-    if (error) {
-      console.error('Error loading group:', error);
-    } else {
+    try {
+      const data = await groupService.getGroup(groupId);
       setGroup(data);
       setNewGroupName(data.name);
       setNewDescription(data.description || '');
+      setNewOnlyAdminsCanPost(data.only_admins_can_post);
       setAvatarPreview(data.avatar_url || '');
+    } catch (error) {
+      console.error('Error loading group:', error);
     }
   };
 
   const loadMembers = async () => {
-    const { data, error } = await supabase
-      .from('group_members')
-      .select('id, user_id, role')
-      .eq('group_id', groupId);
-
-    if (error) {
+    try {
+      setMembers(await groupService.listMembers(groupId));
+    } catch (error) {
       console.error('Error loading members:', error);
-      setLoading(false);
-      return;
     }
-
-    // Load profile info for each member
-    const membersWithProfiles = await Promise.all(
-      (data || []).map(async (member) => {
-        const { data: profile } = await supabase
-          .from('profiles')
-          .select('display_name, email, avatar_url, online_status')
-          .eq('id', member.user_id)
-          .single();
-
-        return {
-          ...member,
-          display_name: profile?.display_name || 'Unknown',
-          email: profile?.email || '',
-          avatar_url: profile?.avatar_url,
-          online_status: profile?.online_status || false
-        };
-      })
-    );
-
-    setMembers(membersWithProfiles);
     setLoading(false);
   };
 
   const loadAvailableUsers = async () => {
     if (!user) return;
 
-    // Get all users
-    const { data: allProfiles } = await supabase
-      .from('profiles')
-      .select('id, display_name, email, avatar_url')
-      .neq('id', user.uid)
-      .order('display_name', { ascending: true });
-
-    // Filter out users who are already members
-    const memberIds = new Set(members.map(m => m.user_id));
-    const available = (allProfiles || []).filter(p => !memberIds.has(p.id));
-    
-    setAllUsers(available);
-  };
-
-  const checkAdminStatus = async () => {
-    if (!user) return;
+    try {
+      const allProfiles = await profileService.listOtherProfiles(user.uid);
 
-    const { data } = await supabase
-      .from('group_members')
-      .select('role')
-      .eq('group_id', groupId)
-      .eq('user_id', user.uid)
-      .single();
+      // Filter out users who are already members
+      const memberIds = new Set(members.map(m => m.user_id));
+      setAllUsers(allProfiles.filter(p => !memberIds.has(p.id)));
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  };
 
-    setIsAdmin(data?.role === 'admin');
+  // The server enforces the same permissions; these only decide what to offer
+  const loadPermissions = async () => {
+    try {
+      setPermissions(await groupService.getPermissions(groupId));
+    } catch (error) {
+      console.error('Error loading permissions:', error);
+    }
   };
 
+  const can = (permission: GroupPermission) => permissions.includes(permission);
+
   const handleAvatarSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
@@ -158,25 +127,8 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
     }
   };
 
-  const uploadAvatar = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const fileRef = storageRef(storage, `group_avatars/${groupId}/${Date.now()}_${file.name}`);
-      const uploadTask = uploadBytesResumable(fileRef, file);
-
-      uploadTask.on(
-        'state_changed',
-        (snapshot) => {
-          const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress(progress);
-        },
-        (error) => reject(error),
-        async () => {
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          resolve(downloadURL);
-        }
-      );
-    });
-  };
+  const uploadAvatar = (file: File) =>
+    fileService.upload(`group_avatars/${groupId}`, file, file.name, setUploadProgress);
 
   const handleSaveChanges = async () => {
     if (!newGroupName.trim()) {
@@ -186,21 +138,17 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
 
     setUploading(true);
     try {
-      let avatarUrl = group.avatar_url;
+      let avatarUrl = group?.avatar_url;
       if (newAvatarFile) {
         avatarUrl = await uploadAvatar(newAvatarFile);
       }
 
-      const { error } = await supabase
-        .from('groups')
-        .update({
-          name: newGroupName,
-          description: newDescription,
-          avatar_url: avatarUrl
-        })
-        .eq('id', groupId);
-
-      if (error) throw error;
+      await groupService.updateGroup(groupId, {
+        name: newGroupName,
+        description: newDescription,
+        avatar_url: avatarUrl,
+        only_admins_can_post: newOnlyAdminsCanPost
+      });
 
       alert('Group updated successfully!');
       setEditMode(false);
@@ -223,17 +171,7 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
     }
 
     try {
-      const memberInserts = Array.from(selectedNewMembers).map(userId => ({
-        group_id: groupId,
-        user_id: userId,
-        role: 'member'
-      }));
-
-      const { error } = await supabase
-        .from('group_members')
-        .insert(memberInserts);
-
-      if (error) throw error;
+      await groupService.addMembers(groupId, Array.from(selectedNewMembers));
 
       alert('Members added successfully!');
       setAddMemberMode(false);
@@ -247,25 +185,11 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
     }
   };
 
-  const handleRemoveMember = async (memberId: string, memberUserId: string) => {
+  const handleRemoveMember = async (memberId: string) => {
     if (!confirm('Are you sure you want to remove this member?')) return;
 
-    // Prevent removing yourself if you're the last admin
-    if (memberUserId === user?.uid) {
-      const adminCount = members.filter(m => m.role === 'admin').length;
-      if (adminCount === 1) {
-        alert('Cannot remove the last admin. Please assign another admin first.');
-        return;
-      }
-    }
-
     try {
-      const { error } = await supabase
-        .from('group_members')
-        .delete()
-        .eq('id', memberId);
-
-      if (error) throw error;
+      await groupService.removeMember(memberId);
 
       alert('Member removed successfully!');
       loadMembers();
@@ -276,30 +200,71 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
     }
   };
 
-  const handleToggleRole = async (memberId: string, currentRole: string, memberUserId: string) => {
+  const handleToggleRole = async (memberId: string, currentRole: GroupRole) => {
     const newRole = currentRole === 'admin' ? 'member' : 'admin';
 
-    // Prevent demoting yourself if you're the last admin
-    if (newRole === 'member' && memberUserId === user?.uid) {
-      const adminCount = members.filter(m => m.role === 'admin').length;
-      if (adminCount === 1) {
-        alert('Cannot demote the last admin. Please assign another admin first.');
+    try {
+      await groupService.setMemberRole(memberId, newRole);
+
+      loadMembers();
+    } catch (error) {
+      console.error('Error updating role:', error);
+      alert('Failed to update role');
+    }
+  };
+
+  const handleTransferOwnership = async (member: GroupMember) => {
+    if (!confirm(`Make ${member.display_name} the owner? You will stay on as an admin.`)) return;
+
+    try {
+      await groupService.transferOwnership(groupId, member.user_id);
+
+      loadMembers();
+      loadPermissions();
+    } catch (error) {
+      console.error('Error transferring ownership:', error);
+      alert('Failed to transfer ownership');
+    }
+  };
+
+  const handleLeave = async () => {
+    // The owner has to hand the group over first
+    if (can('transfer_ownership')) {
+      const others = members.filter((m) => m.user_id !== user?.uid);
+      if (others.length === 0) {
+        alert('You are the only member. Delete the group instead.');
         return;
       }
+      setSuccessorId((others.find((m) => m.role === 'admin') || others[0]).user_id);
+      setChoosingSuccessor(true);
+      return;
     }
 
+    if (!confirm('Are you sure you want to leave this group?')) return;
+    leaveGroup();
+  };
+
+  const leaveGroup = async (successor?: string) => {
     try {
-      const { error } = await supabase
-        .from('group_members')
-        .update({ role: newRole })
-        .eq('id', memberId);
+      await groupService.leaveGroup(groupId, successor);
+      onGroupClosed();
+    } catch (error) {
+      console.error('Error leaving group:', error);
+      alert('Failed to leave group');
+    }
+  };
 
-      if (error) throw error;
+  const handleDeleteGroup = async () => {
+    if (!confirm('Delete this group for everyone? All of its messages and files will be permanently removed.')) return;
 
-      loadMembers();
+    setDeleting(true);
+    try {
+      await groupService.deleteGroup(groupId);
+      onGroupClosed();
     } catch (error) {
-      console.error('Error updating role:', error);
-      alert('Failed to update role');
+      console.error('Error deleting group:', error);
+      alert('Failed to delete group');
+      setDeleting(false);
     }
   };
 
@@ -345,7 +310,7 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                   <Users size={48} className="text-white" />
                 )}
               </div>
-              {editMode && isAdmin && (
+              {editMode && can('edit_info') && (
                 <label className="absolute bottom-0 right-0 p-2 bg-violet-600 rounded-full hover:bg-violet-700 transition-colors cursor-pointer">
                   <Camera size={20} className="text-white" />
                   <input
@@ -372,7 +337,7 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
               </div>
             )}
 
-            {editMode && isAdmin ? (
+            {editMode && can('edit_info') ? (
               <div className="w-full space-y-4">
                 <div>
                   <label className="block text-sm font-medium text-gray-300 mb-2">Group Name</label>
@@ -394,6 +359,15 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                     placeholder="Group description"
                   />
                 </div>
+                <label className="flex items-center gap-3 text-white cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={newOnlyAdminsCanPost}
+                    onChange={(e) => setNewOnlyAdminsCanPost(e.target.checked)}
+                    className="accent-violet-500"
+                  />
+                  Only admins can send messages
+                </label>
               </div>
             ) : (
               <>
@@ -406,8 +380,8 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
             )}
           </div>
 
-          {/* Action Buttons - Only show if admin */}
-          {isAdmin && (
+          {/* Action Buttons - Only show if allowed */}
+          {(can('edit_info') || can('add_members')) && (
             <div className="flex gap-2">
               {editMode ? (
                 <>
@@ -422,9 +396,10 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                   <button
                     onClick={() => {
                       setEditMode(false);
-                      setNewGroupName(group.name);
-                      setNewDescription(group.description || '');
-                      setAvatarPreview(group.avatar_url || '');
+                      setNewGroupName(group?.name || '');
+                      setNewDescription(group?.description || '');
+                      setNewOnlyAdminsCanPost(group?.only_admins_can_post || false);
+                      setAvatarPreview(group?.avatar_url || '');
                       setNewAvatarFile(null);
                     }}
                     className="px-6 py-3 bg-gray-700 text-white rounded-lg font-medium hover:bg-gray-600 transition-all"
@@ -434,27 +409,31 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                 </>
               ) : (
                 <>
-                  <button
-                    onClick={() => setEditMode(true)}
-                    className="flex-1 bg-gradient-to-r from-violet-600 to-purple-600 text-white py-3 rounded-lg font-medium hover:from-violet-700 hover:to-purple-700 transition-all flex items-center justify-center gap-2"
-                  >
-                    <Edit2 size={20} />
-                    Edit Group
-                  </button>
-                  <button
-                    onClick={() => setAddMemberMode(!addMemberMode)}
-                    className="flex-1 bg-gray-700 text-white py-3 rounded-lg font-medium hover:bg-gray-600 transition-all flex items-center justify-center gap-2"
-                  >
-                    <UserPlus size={20} />
-                    Add Members
-                  </button>
+                  {can('edit_info') && (
+                    <button
+                      onClick={() => setEditMode(true)}
+                      className="flex-1 bg-gradient-to-r from-violet-600 to-purple-600 text-white py-3 rounded-lg font-medium hover:from-violet-700 hover:to-purple-700 transition-all flex items-center justify-center gap-2"
+                    >
+                      <Edit2 size={20} />
+                      Edit Group
+                    </button>
+                  )}
+                  {can('add_members') && (
+                    <button
+                      onClick={() => setAddMemberMode(!addMemberMode)}
+                      className="flex-1 bg-gray-700 text-white py-3 rounded-lg font-medium hover:bg-gray-600 transition-all flex items-center justify-center gap-2"
+                    >
+                      <UserPlus size={20} />
+                      Add Members
+                    </button>
+                  )}
                 </>
               )}
             </div>
           )}
 
-          {/* Add Members Section - Only show if admin */}
-          {addMemberMode && isAdmin && (
+          {/* Add Members Section - Only show if allowed */}
+          {addMemberMode && can('add_members') && (
             <div className="bg-gray-900/50 border border-violet-500/30 rounded-lg p-4">
               <h4 className="text-lg font-semibold text-white mb-4">
                 Add New Members ({selectedNewMembers.size} selected)
@@ -512,6 +491,8 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
             </div>
           )}
 
+          {can('manage_invites') && <InviteLinks groupId={groupId} />}
+
           {/* Members List */}
           <div>
             <h4 className="text-lg font-semibold text-white mb-4">Members</h4>
@@ -529,39 +510,52 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                         member.display_name.charAt(0).toUpperCase()
                       )}
                     </div>
-                    <div
-                      className={`absolute bottom-0 right-0 w-3 h-3 rounded-full border-2 border-gray-800 ${
-                        member.online_status ? 'bg-green-500' : 'bg-gray-500'
-                      }`}
-                    />
+                    <PresenceDot presence={getPresence(member.user_id)} />
                   </div>
                   <div className="flex-1">
                     <p className="font-medium text-white flex items-center gap-2">
                       {member.display_name}
-                      {member.role === 'admin' && (
+                      {member.role === 'owner' && (
                         <Crown size={16} className="text-yellow-500" />
                       )}
+                      {member.role === 'admin' && (
+                        <Shield size={16} className="text-yellow-500" />
+                      )}
                       {member.user_id === user?.uid && (
                         <span className="text-xs text-violet-400">(You)</span>
                       )}
                     </p>
                     <p className="text-sm text-gray-400">{member.email}</p>
+                    {member.user_id !== user?.uid && (
+                      <p className="text-xs text-gray-500">{formatLastSeen(getPresence(member.user_id))}</p>
+                    )}
                   </div>
-                  {isAdmin && member.user_id !== group?.created_by && (
+                  {member.user_id !== user?.uid && canManageMember(permissions, member.role) && (
                     <div className="flex gap-2">
+                      {can('transfer_ownership') && (
+                        <button
+                          onClick={() => handleTransferOwnership(member)}
+                          className="p-2 bg-gray-700 text-gray-400 rounded-lg hover:bg-gray-600 transition-all"
+                          title="Make owner"
+                        >
+                          <Crown size={16} />
+                        </button>
+                      )}
+                      {can('manage_admins') && (
+                        <button
+                          onClick={() => handleToggleRole(member.id, member.role)}
+                          className={`p-2 rounded-lg transition-all ${
+                            member.role === 'admin'
+                              ? 'bg-yellow-500/20 text-yellow-500 hover:bg-yellow-500/30'
+                              : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+                          }`}
+                          title={member.role === 'admin' ? 'Demote to member' : 'Promote to admin'}
+                        >
+                          <Shield size={16} />
+                        </button>
+                      )}
                       <button
-                        onClick={() => handleToggleRole(member.id, member.role, member.user_id)}
-                        className={`p-2 rounded-lg transition-all ${
-                          member.role === 'admin'
-                            ? 'bg-yellow-500/20 text-yellow-500 hover:bg-yellow-500/30'
-                            : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
-                        }`}
-                        title={member.role === 'admin' ? 'Demote to member' : 'Promote to admin'}
-                      >
-                        <Shield size={16} />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveMember(member.id, member.user_id)}
+                        onClick={() => handleRemoveMember(member.id)}
                         className="p-2 bg-red-500/20 text-red-500 rounded-lg hover:bg-red-500/30 transition-all"
                         title="Remove member"
                       >
@@ -569,13 +563,72 @@ export const GroupDetails = ({ groupId, groupName, onClose, onGroupUpdated }: Gr
                       </button>
                     </div>
                   )}
-                  {member.user_id === group?.created_by && (
-                    <span className="text-xs text-gray-500 italic">Creator</span>
+                  {member.role !== 'member' && (
+                    <span className="text-xs text-gray-500 italic">{member.role === 'owner' ? 'Owner' : 'Admin'}</span>
                   )}
                 </div>
               ))}
             </div>
           </div>
+
+          {can('view_audit_log') && <GroupAuditLog groupId={groupId} members={members} />}
+
+          <SharedFiles kind="group" conversationId={groupId} onJumpToMessage={onJumpToMessage} />
+
+          {choosingSuccessor ? (
+            <div className="bg-gray-900/50 border border-red-500/30 rounded-lg p-4 space-y-4">
+              <p className="text-white">Choose a new owner before you leave</p>
+              <select
+                value={successorId}
+                onChange={(e) => setSuccessorId(e.target.value)}
+                className="w-full px-3 py-2 bg-gray-800 border border-violet-500/30 rounded-lg text-white focus:outline-none focus:border-violet-500"
+              >
+                {members
+                  .filter((m) => m.user_id !== user?.uid)
+                  .map((m) => (
+                    <option key={m.user_id} value={m.user_id}>
+                      {m.display_name}
+                      {m.role === 'admin' ? ' (Admin)' : ''}
+                    </option>
+                  ))}
+              </select>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => leaveGroup(successorId)}
+                  className="flex-1 py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors flex items-center justify-center gap-2"
+                >
+                  <LogOut size={18} />
+                  Hand Over and Leave
+                </button>
+                <button
+                  onClick={() => setChoosingSuccessor(false)}
+                  className="px-6 py-2 bg-gray-700 text-white rounded-lg font-medium hover:bg-gray-600 transition-all"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={handleLeave}
+                className="flex-1 py-3 bg-red-500/20 text-red-400 rounded-lg font-medium hover:bg-red-500/30 transition-all flex items-center justify-center gap-2"
+              >
+                <LogOut size={20} />
+                Leave Group
+              </button>
+              {can('delete_group') && (
+                <button
+                  onClick={handleDeleteGroup}
+                  disabled={deleting}
+                  className="flex-1 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-all disabled:opacity-50 flex items-center justify-center gap-2"
+                >
+                  <Trash2 size={20} />
+                  {deleting ? 'Deleting…' : 'Delete Group'}
+                </button>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
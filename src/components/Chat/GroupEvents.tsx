@@ -0,0 +1,19 @@
+import { describeGroupEvent } from '../../services/groups';
+import type { GroupEvent } from '../../types/chat';
+
+interface GroupEventNoticeProps {
+  event: GroupEvent;
+  currentUserId?: string;
+}
+
+// A group change shown between the messages
+export const GroupEventNotice = ({ event, currentUserId }: GroupEventNoticeProps) => (
+  <div className="flex justify-center">
+    <p
+      className="px-3 py-1 rounded-full bg-gray-800/70 text-xs text-gray-400 text-center"
+      title={new Date(event.created_at).toLocaleString()}
+    >
+      {describeGroupEvent(event, currentUserId)}
+    </p>
+  </div>
+);
@@ -1,30 +1,10 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../../config/supabase';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { conversationService, isArchived, isMuted } from '../../services/conversations';
+import { profileService } from '../../services/profiles';
 import { useAuth } from '../../contexts/AuthContext';
-import { Users, Plus } from 'lucide-react';
-
-interface Group {
-  id: string;
-  name: string;
-  description: string;
-  avatar_url?: string;
-  created_by: string;
-  created_at: string;
-}
-
-interface LastMessage {
-  content: string;
-  created_at: string;
-  sender_id: string;
-  message_type: string;
-  sender_name?: string;
-}
-
-interface GroupWithMessages extends Group {
-  member_count: number;
-  unreadCount: number;
-  lastMessage?: LastMessage;
-}
+import { Users, Plus, Pin, BellOff, Archive, ChevronDown, ChevronRight } from 'lucide-react';
+import { ConversationMenu } from './ConversationMenu';
+import type { ConversationSettings, Group, GroupConversation, GroupMessage, LastMessage } from '../../types/chat';
 
 interface GroupListProps {
   selectedGroupId: string | null;
@@ -32,194 +12,153 @@ interface GroupListProps {
   onCreateGroup: () => void;
 }
 
+// Unread messages count unless the group is muted; mentions always do
+const needsAttention = (group: GroupConversation) =>
+  group.unreadMentions > 0 || (group.unreadCount > 0 && !isMuted(group.settings));
+
+// Pinned groups first in pin order, then ones needing attention, then by
+// last message time, then newest group first
+const sortGroups = (groups: GroupConversation[]) =>
+  [...groups].sort((a, b) => {
+    if (a.settings.pinned_at && b.settings.pinned_at) {
+      return new Date(a.settings.pinned_at).getTime() - new Date(b.settings.pinned_at).getTime();
+    }
+    if (a.settings.pinned_at) return -1;
+    if (b.settings.pinned_at) return 1;
+
+    const aUnread = needsAttention(a);
+    const bUnread = needsAttention(b);
+    if (aUnread && !bUnread) return -1;
+    if (!aUnread && bUnread) return 1;
+    
+    if (a.lastMessage && b.lastMessage) {
+      return new Date(b.lastMessage.created_at).getTime() - new Date(a.lastMessage.created_at).getTime();
+    }
+    if (a.lastMessage && !b.lastMessage) return -1;
+    if (!a.lastMessage && b.lastMessage) return 1;
+    
+    return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
+  });
+
 export const GroupList = ({ selectedGroupId, onSelectGroup, onCreateGroup }: GroupListProps) => {
-  const [groups, setGroups] = useState<GroupWithMessages[]>([]);
+  const [groups, setGroups] = useState<GroupConversation[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const refreshTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const { user } = useAuth();
+  // Realtime filters list the group ids, so resubscribe whenever the set changes
+  const groupIdsKey = useMemo(() => groups.map((g) => g.id).sort().join(','), [groups]);
 
   useEffect(() => {
     if (user) {
       loadGroups();
-      
-      // Set up real-time subscription for groups
-      const groupChannel = supabase
-        .channel('groups_realtime')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'groups'
-          },
-          () => {
-            loadGroups();
-          }
-        )
-        .subscribe();
-
-      // Set up real-time subscription for group members
-      const memberChannel = supabase
-        .channel('group_members_realtime')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'group_members'
-          },
-          () => {
-            loadGroups();
-          }
-        )
-        .subscribe();
-
-      // Set up real-time subscription for group messages
-      const messagesChannel = supabase
-        .channel('group_messages_realtime')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'group_messages'
-          },
-          () => {
-            loadGroups();
-          }
-        )
-        .subscribe();
-
-      return () => {
-        supabase.removeChannel(groupChannel);
-        supabase.removeChannel(memberChannel);
-        supabase.removeChannel(messagesChannel);
-      };
     }
   }, [user]);
 
+  const removeMembership = (membershipId: string) => {
+    setGroups((prev) => prev.filter((g) => g.membershipId !== membershipId));
+  };
+
   const loadGroups = async () => {
     if (!user) return;
 
-    // Get groups where user is a member
-    const { data: memberData, error: memberError } = await supabase
-      .from('group_members')
-      .select('group_id')
-      .eq('user_id', user.uid);
-
-    if (memberError) {
-      console.error('Error loading group members:', memberError);
-      setLoading(false);
-      return;
+    try {
+      setGroups(sortGroups(await conversationService.listGroupConversations()));
+    } catch (error) {
+      console.error('Error loading groups:', error);
     }
+    setLoading(false);
+  };
 
-    const groupIds = memberData.map(m => m.group_id);
-
-    if (groupIds.length === 0) {
-      setGroups([]);
-      setLoading(false);
-      return;
-    }
-
-    // Get group details
-    const { data: groupData, error: groupError } = await supabase
-      .from('groups')
-      .select('*')
-      .in('id', groupIds);
-
-    if (groupError) {
-      console.error('Error loading groups:', groupError);
-      setLoading(false);
-      return;
-    }
+  const applyGroupUpdate = (group: Group) => {
+    setGroups((prev) => prev.map((g) => (g.id === group.id ? { ...g, ...group } : g)));
+  };
 
-    // Get additional data for each group
-    const groupsWithData = await Promise.all(
-      (groupData || []).map(async (group) => {
-        // Get member count
-        const { count: memberCount } = await supabase
-          .from('group_members')
-          .select('*', { count: 'exact', head: true })
-          .eq('group_id', group.id);
+  const applyNewMessage = useCallback(async (message: GroupMessage) => {
+    const isOwn = message.sender_id === user?.uid;
+    const mentioned = !isOwn && !!user && !!message.mentions?.includes(user.uid);
+    const sender = isOwn ? null : await profileService.getSummary(message.sender_id);
+    const lastMessage: LastMessage = {
+      content: message.content,
+      created_at: message.created_at,
+      sender_id: message.sender_id,
+      message_type: message.message_type,
+      sender_name: sender?.display_name
+    };
 
-        // Get last message with sender info
-        const { data: lastMessages } = await supabase
-          .from('group_messages')
-          .select('content, created_at, sender_id, message_type')
-          .eq('group_id', group.id)
-          .order('created_at', { ascending: false })
-          .limit(1);
+    setGroups((prev) =>
+      sortGroups(
+        prev.map((g) =>
+          g.id === message.group_id
+            ? {
+                ...g,
+                lastMessage,
+                unreadCount: g.unreadCount + (isOwn ? 0 : 1),
+                unreadMentions: g.unreadMentions + (mentioned ? 1 : 0)
+              }
+            : g
+        )
+      )
+    );
+  }, [user]);
 
-        let lastMessage = lastMessages?.[0];
-        
-        // Get sender name if last message exists
-        if (lastMessage) {
-          const { data: senderData } = await supabase
-            .from('profiles')
-            .select('display_name')
-            .eq('id', lastMessage.sender_id)
-            .single();
-          
-          lastMessage = {
-            ...lastMessage,
-            sender_name: senderData?.display_name
-          };
+  // Joins, read markers and edits are re-read from the server, debounced per
+  // group since one action can touch several rows
+  const scheduleRefresh = (groupId: string) => {
+    const timers = refreshTimersRef.current;
+    clearTimeout(timers.get(groupId));
+    timers.set(
+      groupId,
+      setTimeout(async () => {
+        timers.delete(groupId);
+        try {
+          const group = await conversationService.getGroupConversation(groupId);
+          setGroups((prev) => {
+            const others = prev.filter((g) => g.id !== groupId);
+            return sortGroups(group ? [...others, group] : others);
+          });
+        } catch (error) {
+          console.error('Error refreshing group:', error);
         }
+      }, 300)
+    );
+  };
 
-        // Get unread count (messages sent after user's last read)
-        // For simplicity, we'll count all messages sent by others that are newer than user's last view
-        const { data: userLastSeen } = await supabase
-          .from('group_members')
-          .select('last_read_at')
-          .eq('group_id', group.id)
-          .eq('user_id', user.uid)
-          .single();
-
-        let unreadCount = 0;
-        if (userLastSeen?.last_read_at) {
-          const { count } = await supabase
-            .from('group_messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('group_id', group.id)
-            .neq('sender_id', user.uid)
-            .gt('created_at', userLastSeen.last_read_at);
-          
-          unreadCount = count || 0;
-        } else {
-          // If never read, count all messages from others
-          const { count } = await supabase
-            .from('group_messages')
-            .select('*', { count: 'exact', head: true })
-            .eq('group_id', group.id)
-            .neq('sender_id', user.uid);
-          
-          unreadCount = count || 0;
-        }
+  useEffect(() => {
+    if (!user) return;
 
-        return {
-          ...group,
-          member_count: memberCount || 0,
-          unreadCount,
-          lastMessage
-        };
-      })
+    const refreshTimers = refreshTimersRef.current;
+    const unsubscribe = conversationService.subscribeToGroupConversations(
+      user.uid,
+      groupIdsKey ? groupIdsKey.split(',') : [],
+      {
+        onGroupChange: scheduleRefresh,
+        onGroupUpdate: applyGroupUpdate,
+        onMessage: applyNewMessage,
+        onMembershipRemoved: removeMembership
+      }
     );
 
-    // Sort groups: 1) unread first, 2) then by last message time, 3) then by creation time
-    groupsWithData.sort((a, b) => {
-      if (a.unreadCount > 0 && b.unreadCount === 0) return -1;
-      if (a.unreadCount === 0 && b.unreadCount > 0) return 1;
-      
-      if (a.lastMessage && b.lastMessage) {
-        return new Date(b.lastMessage.created_at).getTime() - new Date(a.lastMessage.created_at).getTime();
-      }
-      if (a.lastMessage && !b.lastMessage) return -1;
-      if (!a.lastMessage && b.lastMessage) return 1;
-      
-      return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-    });
+    return () => {
+      unsubscribe();
+      refreshTimers.forEach((timer) => clearTimeout(timer));
+      refreshTimers.clear();
+    };
+  }, [user, groupIdsKey, applyNewMessage]);
 
-    setGroups(groupsWithData);
-    setLoading(false);
+  const updateSettings = async (groupId: string, fields: Partial<ConversationSettings>) => {
+    if (!user) return;
+
+    setGroups((prev) =>
+      sortGroups(prev.map((g) => (g.id === groupId ? { ...g, settings: { ...g.settings, ...fields } } : g)))
+    );
+    try {
+      await conversationService.updateSettings(user.uid, { type: 'group', id: groupId }, fields);
+    } catch (error) {
+      console.error('Error updating conversation settings:', error);
+      alert('Failed to update conversation settings');
+      scheduleRefresh(groupId);
+    }
   };
 
   const formatLastMessage = (msg: LastMessage, senderId: string) => {
@@ -263,6 +202,86 @@ export const GroupList = ({ selectedGroupId, onSelectGroup, onCreateGroup }: Gro
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  const renderGroup = (group: GroupConversation) => {
+    const muted = isMuted(group.settings);
+    const highlighted = needsAttention(group);
+
+    return (
+      <div key={group.id} className="relative group">
+        <button
+          onClick={() => onSelectGroup(group.id, group.name)}
+          className={`w-full p-4 pr-10 flex items-start gap-3 hover:bg-violet-500/10 transition-all ${
+            selectedGroupId === group.id ? 'bg-violet-500/20' : ''
+          } ${highlighted ? 'bg-violet-500/5' : ''}`}
+        >
+          <div className="w-12 h-12 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white font-semibold flex-shrink-0 overflow-hidden">
+            {group.avatar_url ? (
+              <img
+                src={group.avatar_url}
+                alt={group.name}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <Users size={24} />
+            )}
+          </div>
+          <div className="flex-1 min-w-0 text-left">
+            <div className="flex items-center justify-between mb-1">
+              <p className={`font-medium truncate flex items-center gap-1 ${highlighted ? 'text-white' : 'text-gray-200'}`}>
+                <span className="truncate">{group.name}</span>
+                {group.settings.pinned_at && <Pin size={12} className="text-violet-400 flex-shrink-0" />}
+                {muted && <BellOff size={12} className="text-gray-500 flex-shrink-0" />}
+              </p>
+              {group.lastMessage && (
+                <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
+                  {formatTime(group.lastMessage.created_at)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              {group.lastMessage ? (
+                <p className={`text-sm truncate ${highlighted ? 'text-white font-medium' : 'text-gray-400'}`}>
+                  {formatLastMessage(group.lastMessage, group.lastMessage.sender_id)}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500 italic">{group.member_count} members</p>
+              )}
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {group.unreadMentions > 0 && (
+                  <span
+                    className="bg-violet-600 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5"
+                    title="Unread mentions"
+                  >
+                    @{group.unreadMentions > 99 ? '99+' : group.unreadMentions}
+                  </span>
+                )}
+                {group.unreadCount > 0 && (
+                  <span
+                    className={`${
+                      muted ? 'bg-gray-600' : 'bg-violet-600'
+                    } text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5`}
+                  >
+                    {group.unreadCount > 99 ? '99+' : group.unreadCount}
+                  </span>
+                )}
+              </div>
+            </div>
+          </div>
+        </button>
+        <div className="absolute right-2 bottom-3">
+          <ConversationMenu
+            settings={group.settings}
+            lastMessage={group.lastMessage}
+            onChange={(fields) => updateSettings(group.id, fields)}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const active = groups.filter((g) => !isArchived(g));
+  const archived = groups.filter((g) => isArchived(g));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -287,53 +306,20 @@ export const GroupList = ({ selectedGroupId, onSelectGroup, onCreateGroup }: Gro
         </button>
       </div>
       <div className="divide-y divide-violet-500/10">
-        {groups.map((group) => (
-          <button
-            key={group.id}
-            onClick={() => onSelectGroup(group.id, group.name)}
-            className={`w-full p-4 flex items-start gap-3 hover:bg-violet-500/10 transition-all ${
-              selectedGroupId === group.id ? 'bg-violet-500/20' : ''
-            } ${group.unreadCount > 0 ? 'bg-violet-500/5' : ''}`}
-          >
-            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white font-semibold flex-shrink-0 overflow-hidden">
-              {group.avatar_url ? (
-                <img
-                  src={group.avatar_url}
-                  alt={group.name}
-                  className="w-full h-full object-cover"
-                />
-              ) : (
-                <Users size={24} />
-              )}
-            </div>
-            <div className="flex-1 min-w-0 text-left">
-              <div className="flex items-center justify-between mb-1">
-                <p className={`font-medium truncate ${group.unreadCount > 0 ? 'text-white' : 'text-gray-200'}`}>
-                  {group.name}
-                </p>
-                {group.lastMessage && (
-                  <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
-                    {formatTime(group.lastMessage.created_at)}
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center justify-between gap-2">
-                {group.lastMessage ? (
-                  <p className={`text-sm truncate ${group.unreadCount > 0 ? 'text-white font-medium' : 'text-gray-400'}`}>
-                    {formatLastMessage(group.lastMessage, group.lastMessage.sender_id)}
-                  </p>
-                ) : (
-                  <p className="text-sm text-gray-500 italic">{group.member_count} members</p>
-                )}
-                {group.unreadCount > 0 && (
-                  <span className="bg-violet-600 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5 flex-shrink-0">
-                    {group.unreadCount > 99 ? '99+' : group.unreadCount}
-                  </span>
-                )}
-              </div>
-            </div>
-          </button>
-        ))}
+        {active.map(renderGroup)}
+        {archived.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full px-4 py-3 flex items-center gap-2 text-sm text-gray-400 hover:text-white hover:bg-violet-500/10 transition-all"
+            >
+              {showArchived ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+              <Archive size={16} />
+              Archived ({archived.length})
+            </button>
+            {showArchived && archived.map(renderGroup)}
+          </>
+        )}
         {groups.length === 0 && (
           <div className="p-8 text-center text-gray-400">
             <Users size={48} className="mx-auto mb-4 opacity-50" />
@@ -0,0 +1,167 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link2, Copy, Check, Trash2 } from 'lucide-react';
+import { inviteService } from '../../services/invites';
+import { useAuth } from '../../contexts/AuthContext';
+import type { GroupInvite } from '../../types/chat';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { label: 'Never expires', duration: null },
+  { label: 'Expires in 1 hour', duration: HOUR_MS },
+  { label: 'Expires in 1 day', duration: 24 * HOUR_MS },
+  { label: 'Expires in 7 days', duration: 7 * 24 * HOUR_MS }
+];
+
+const describeInvite = (invite: GroupInvite) => {
+  const uses = invite.max_uses ? `${invite.use_count} / ${invite.max_uses} uses` : `${invite.use_count} uses`;
+
+  if (invite.max_uses && invite.use_count >= invite.max_uses) return `${uses} · Used up`;
+  if (!invite.expires_at) return `${uses} · Never expires`;
+
+  const expiresAt = new Date(invite.expires_at);
+  if (expiresAt.getTime() <= Date.now()) return `${uses} · Expired`;
+  return `${uses} · Expires ${expiresAt.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}`;
+};
+
+interface InviteLinksProps {
+  groupId: string;
+}
+
+// Admin-only list of a group's invite links with a form for new ones
+export const InviteLinks = ({ groupId }: InviteLinksProps) => {
+  const { user } = useAuth();
+  const [invites, setInvites] = useState<GroupInvite[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [maxUses, setMaxUses] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const loadInvites = useCallback(async () => {
+    try {
+      setInvites(await inviteService.listInvites(groupId));
+    } catch (error) {
+      console.error('Error loading invite links:', error);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    loadInvites();
+  }, [loadInvites]);
+
+  const handleCreate = async () => {
+    if (!user) return;
+
+    const limit = maxUses.trim() ? parseInt(maxUses, 10) : null;
+    if (limit !== null && (isNaN(limit) || limit < 1)) {
+      alert('Maximum uses must be a positive number');
+      return;
+    }
+
+    const { duration } = EXPIRY_OPTIONS[expiryIndex];
+    setCreating(true);
+    try {
+      const invite = await inviteService.createInvite(groupId, user.uid, {
+        expiresAt: duration ? new Date(Date.now() + duration).toISOString() : null,
+        maxUses: limit
+      });
+      setInvites((prev) => [invite, ...prev]);
+      setMaxUses('');
+      handleCopy(invite);
+    } catch (error) {
+      console.error('Error creating invite link:', error);
+      alert('Failed to create invite link');
+    }
+    setCreating(false);
+  };
+
+  const handleCopy = async (invite: GroupInvite) => {
+    try {
+      await navigator.clipboard.writeText(inviteService.buildUrl(invite.token));
+      setCopiedId(invite.id);
+      setTimeout(() => setCopiedId((current) => (current === invite.id ? null : current)), 2000);
+    } catch (error) {
+      console.error('Error copying invite link:', error);
+      prompt('Copy this invite link:', inviteService.buildUrl(invite.token));
+    }
+  };
+
+  const handleRevoke = async (inviteId: string) => {
+    if (!confirm('Revoke this invite link? People who have it will no longer be able to join.')) return;
+
+    try {
+      await inviteService.revokeInvite(inviteId);
+      setInvites((prev) => prev.filter((invite) => invite.id !== inviteId));
+    } catch (error) {
+      console.error('Error revoking invite link:', error);
+      alert('Failed to revoke invite link');
+    }
+  };
+
+  return (
+    <div className="bg-gray-900/50 border border-violet-500/30 rounded-lg p-4 space-y-4">
+      <h4 className="text-lg font-semibold text-white flex items-center gap-2">
+        <Link2 size={20} />
+        Invite Links
+      </h4>
+
+      <div className="flex flex-wrap gap-2">
+        <select
+          value={expiryIndex}
+          onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          className="flex-1 px-3 py-2 bg-gray-800 border border-violet-500/30 rounded-lg text-white focus:outline-none focus:border-violet-500"
+        >
+          {EXPIRY_OPTIONS.map(({ label }, index) => (
+            <option key={label} value={index}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={1}
+          value={maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+          placeholder="Unlimited uses"
+          className="w-36 px-3 py-2 bg-gray-800 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500"
+        />
+        <button
+          onClick={handleCreate}
+          disabled={creating}
+          className="px-4 py-2 bg-gradient-to-r from-violet-600 to-purple-600 text-white rounded-lg font-medium hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50"
+        >
+          Create Link
+        </button>
+      </div>
+
+      {invites.length === 0 ? (
+        <p className="text-gray-400 text-sm">No active invite links</p>
+      ) : (
+        <div className="space-y-2">
+          {invites.map((invite) => (
+            <div key={invite.id} className="flex items-center gap-3 p-3 bg-gray-800/50 rounded-lg">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-white truncate font-mono">{inviteService.buildUrl(invite.token)}</p>
+                <p className="text-xs text-gray-400">{describeInvite(invite)}</p>
+              </div>
+              <button
+                onClick={() => handleCopy(invite)}
+                className="p-2 text-gray-400 hover:text-white transition-colors"
+                title="Copy link"
+              >
+                {copiedId === invite.id ? <Check size={16} className="text-green-500" /> : <Copy size={16} />}
+              </button>
+              <button
+                onClick={() => handleRevoke(invite.id)}
+                className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+                title="Revoke link"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useState } from 'react';
+import { X, Users } from 'lucide-react';
+import { inviteService } from '../../services/invites';
+import type { InvitePreview, InviteStatus } from '../../types/chat';
+
+const STATUS_MESSAGES: Record<Exclude<InviteStatus, 'valid'>, string> = {
+  expired: 'This invite link has expired.',
+  revoked: 'This invite link has been revoked.',
+  used_up: 'This invite link has reached its limit.'
+};
+
+interface JoinGroupDialogProps {
+  token: string;
+  onJoined: (groupId: string, groupName: string) => void;
+  onClose: () => void;
+}
+
+export const JoinGroupDialog = ({ token, onJoined, onClose }: JoinGroupDialogProps) => {
+  const [preview, setPreview] = useState<InvitePreview | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [joining, setJoining] = useState(false);
+
+  const loadPreview = useCallback(async () => {
+    try {
+      setPreview(await inviteService.getPreview(token));
+    } catch (error) {
+      console.error('Error loading invite:', error);
+    }
+    setLoading(false);
+  }, [token]);
+
+  useEffect(() => {
+    loadPreview();
+  }, [loadPreview]);
+
+  const handleJoin = async () => {
+    if (!preview) return;
+
+    setJoining(true);
+    try {
+      const groupId = await inviteService.join(token);
+      onJoined(groupId, preview.name);
+    } catch (error) {
+      console.error('Error joining group:', error);
+      alert('Failed to join group');
+      setJoining(false);
+      // The link may have expired or run out in the meantime
+      loadPreview();
+    }
+  };
+
+  const unavailable = preview && !preview.is_member && preview.status !== 'valid' ? STATUS_MESSAGES[preview.status] : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800/90 backdrop-blur-lg rounded-2xl shadow-2xl border border-violet-500/20 max-w-md w-full">
+        <div className="p-6 border-b border-violet-500/20 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-purple-600">
+            Group Invite
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-violet-500"></div>
+            </div>
+          ) : !preview ? (
+            <p className="text-gray-400 text-center py-8">This invite link is not valid.</p>
+          ) : (
+            <div className="flex flex-col items-center space-y-4">
+              <div className="w-24 h-24 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white overflow-hidden">
+                {preview.avatar_url ? (
+                  <img src={preview.avatar_url} alt={preview.name} className="w-full h-full object-cover" />
+                ) : (
+                  <Users size={40} />
+                )}
+              </div>
+              <h3 className="text-2xl font-bold text-white text-center">{preview.name}</h3>
+              {preview.description && <p className="text-gray-400 text-center">{preview.description}</p>}
+              <p className="text-sm text-gray-500">{preview.member_count} members</p>
+
+              {unavailable ? (
+                <p className="text-red-400 text-center">{unavailable}</p>
+              ) : (
+                <button
+                  onClick={preview.is_member ? () => onJoined(preview.group_id, preview.name) : handleJoin}
+                  disabled={joining}
+                  className="w-full bg-gradient-to-r from-violet-600 to-purple-600 text-white py-3 rounded-lg font-medium hover:from-violet-700 hover:to-purple-700 transition-all disabled:opacity-50"
+                >
+                  {preview.is_member ? 'Open Group' : joining ? 'Joining…' : 'Join Group'}
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
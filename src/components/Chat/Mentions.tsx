@@ -0,0 +1,78 @@
+import type { ProfileSummary } from '../../types/chat';
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+interface MentionSuggestionsProps {
+  suggestions: ProfileSummary[];
+  activeIndex: number;
+  onSelect: (member: ProfileSummary) => void;
+}
+
+// Members matching the "@..." being typed, shown above the composer
+export const MentionSuggestions = ({ suggestions, activeIndex, onSelect }: MentionSuggestionsProps) => (
+  <div className="absolute bottom-full left-4 right-4 mb-2 bg-gray-800 border border-violet-500/30 rounded-lg shadow-lg overflow-hidden">
+    {suggestions.map((member, index) => (
+      <button
+        key={member.id}
+        // Keep focus in the composer
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(member)}
+        className={`w-full flex items-center gap-2 px-3 py-2 text-left text-white transition-colors ${
+          index === activeIndex ? 'bg-violet-600/40' : 'hover:bg-gray-700'
+        }`}
+      >
+        <div className="w-6 h-6 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white text-xs font-semibold overflow-hidden flex-shrink-0">
+          {member.avatar_url ? (
+            <img src={member.avatar_url} alt={member.display_name} className="w-full h-full object-cover" />
+          ) : (
+            member.display_name.charAt(0).toUpperCase()
+          )}
+        </div>
+        <span className="truncate">{member.display_name}</span>
+      </button>
+    ))}
+  </div>
+);
+
+interface MentionTextProps {
+  content: string;
+  mentions?: string[];
+  getName: (userId: string) => string | undefined;
+  currentUserId?: string;
+  isOwn: boolean;
+  className?: string;
+}
+
+// Message text with the "@Name" of each mentioned member highlighted
+export const MentionText = ({ content, mentions, getName, currentUserId, isOwn, className }: MentionTextProps) => {
+  const named = (mentions || [])
+    .map((id) => ({ id, name: getName(id) }))
+    .filter((m): m is { id: string; name: string } => !!m.name)
+    // Longest first so "@Sam Lee" wins over "@Sam"
+    .sort((a, b) => b.name.length - a.name.length);
+
+  if (named.length === 0) return <p className={className}>{content}</p>;
+
+  const pattern = new RegExp(`(${named.map((m) => `@${escapeRegExp(m.name)}`).join('|')})`);
+
+  return (
+    <p className={className}>
+      {content.split(pattern).map((part, index) => {
+        const mention = index % 2 === 1 ? named.find((m) => `@${m.name}` === part) : undefined;
+        if (!mention) return part;
+
+        const isMe = mention.id === currentUserId;
+        return (
+          <span
+            key={index}
+            className={`font-semibold ${
+              isMe ? 'px-1 rounded bg-amber-400/20 text-amber-300' : isOwn ? 'text-white underline' : 'text-violet-300'
+            }`}
+          >
+            {part}
+          </span>
+        );
+      })}
+    </p>
+  );
+};
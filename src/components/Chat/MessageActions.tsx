@@ -0,0 +1,127 @@
+import { useEffect, useRef, useState } from 'react';
+import { MoreVertical, Edit2, Trash2, Reply, Info, Flag } from 'lucide-react';
+
+// Mirrors the windows enforced by edit_message/delete_message in the database
+export const EDIT_WINDOW_MS = 15 * 60 * 1000;
+export const DELETE_FOR_EVERYONE_WINDOW_MS = 60 * 60 * 1000;
+
+interface MessageActionsProps {
+  isOwn: boolean;
+  messageType: string;
+  createdAt: string;
+  onReply: () => void;
+  onEdit: () => void;
+  onDeleteForMe: () => void;
+  onDeleteForEveryone: () => void;
+  // Only offered where delivery details exist, i.e. own direct messages
+  onInfo?: () => void;
+  // Offered on other people's messages
+  onReport?: () => void;
+}
+
+export const MessageActions = ({
+  isOwn,
+  messageType,
+  createdAt,
+  onReply,
+  onEdit,
+  onDeleteForMe,
+  onDeleteForEveryone,
+  onInfo,
+  onReport
+}: MessageActionsProps) => {
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const age = Date.now() - new Date(createdAt).getTime();
+  const canEdit = isOwn && messageType === 'text' && age < EDIT_WINDOW_MS;
+  const canDeleteForEveryone = isOwn && age < DELETE_FOR_EVERYONE_WINDOW_MS;
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="Message actions"
+      >
+        <MoreVertical size={16} />
+      </button>
+      {open && (
+        <div
+          className={`absolute top-6 z-20 w-48 bg-gray-800 border border-violet-500/30 rounded-lg shadow-xl py-1 ${
+            isOwn ? 'right-0' : 'left-0'
+          }`}
+        >
+          <button
+            onClick={() => run(onReply)}
+            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-violet-500/20 flex items-center gap-2"
+          >
+            <Reply size={14} />
+            Reply
+          </button>
+          {isOwn && onInfo && (
+            <button
+              onClick={() => run(onInfo)}
+              className="w-full px-3 py-2 text-left text-sm text-white hover:bg-violet-500/20 flex items-center gap-2"
+            >
+              <Info size={14} />
+              Info
+            </button>
+          )}
+          {canEdit && (
+            <button
+              onClick={() => run(onEdit)}
+              className="w-full px-3 py-2 text-left text-sm text-white hover:bg-violet-500/20 flex items-center gap-2"
+            >
+              <Edit2 size={14} />
+              Edit
+            </button>
+          )}
+          <button
+            onClick={() => run(onDeleteForMe)}
+            className="w-full px-3 py-2 text-left text-sm text-white hover:bg-violet-500/20 flex items-center gap-2"
+          >
+            <Trash2 size={14} />
+            Delete for me
+          </button>
+          {canDeleteForEveryone && (
+            <button
+              onClick={() => run(onDeleteForEveryone)}
+              className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/20 flex items-center gap-2"
+            >
+              <Trash2 size={14} />
+              Delete for everyone
+            </button>
+          )}
+          {!isOwn && onReport && (
+            <button
+              onClick={() => run(onReport)}
+              className="w-full px-3 py-2 text-left text-sm text-red-400 hover:bg-red-500/20 flex items-center gap-2"
+            >
+              <Flag size={14} />
+              Report
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,109 @@
+import { X, Check, CheckCheck, Clock } from 'lucide-react';
+import type { DirectMessage } from '../../types/chat';
+
+// Messages read before receipts had timestamps only carry the `read` flag
+const getDeliveryStatus = (message: DirectMessage) => {
+  if (message.read_at || message.read) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+export const DeliveryStatusIcon = ({ message }: { message: DirectMessage }) => {
+  const status = getDeliveryStatus(message);
+
+  if (status === 'read') {
+    return (
+      <span title="Read">
+        <CheckCheck size={14} className="text-blue-400" />
+      </span>
+    );
+  }
+  if (status === 'delivered') {
+    return (
+      <span title="Delivered">
+        <CheckCheck size={14} />
+      </span>
+    );
+  }
+  return (
+    <span title="Sent">
+      <Check size={14} />
+    </span>
+  );
+};
+
+const formatTimestamp = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  });
+
+interface MessageInfoProps {
+  message: DirectMessage;
+  onClose: () => void;
+}
+
+export const MessageInfo = ({ message, onClose }: MessageInfoProps) => {
+  const status = getDeliveryStatus(message);
+  const rows = [
+    { label: 'Sent', icon: <Check size={18} />, time: message.created_at, reached: true },
+    { label: 'Delivered', icon: <CheckCheck size={18} />, time: message.delivered_at, reached: status !== 'sent' },
+    {
+      label: 'Read',
+      icon: <CheckCheck size={18} className="text-blue-400" />,
+      time: message.read_at,
+      reached: status === 'read'
+    }
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800/90 backdrop-blur-lg rounded-2xl shadow-2xl border border-violet-500/20 max-w-md w-full">
+        <div className="p-6 border-b border-violet-500/20 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-purple-600">
+            Message Info
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="px-4 py-2 rounded-2xl bg-gradient-to-r from-violet-600 to-purple-600 text-white">
+            <p className="whitespace-pre-wrap break-words line-clamp-4">
+              {message.message_type === 'file' && !message.content
+                ? `📎 ${message.files?.length || 1} file(s)`
+                : message.content}
+            </p>
+          </div>
+
+          <ul className="space-y-3">
+            {rows.map(({ label, icon, time, reached }) => (
+              <li key={label} className="flex items-center gap-3">
+                <span className={reached ? 'text-gray-300' : 'text-gray-600'}>{icon}</span>
+                <div className="flex-1">
+                  <p className={`font-medium ${reached ? 'text-white' : 'text-gray-500'}`}>{label}</p>
+                  <p className="text-sm text-gray-400">
+                    {time ? (
+                      formatTimestamp(time)
+                    ) : reached ? (
+                      'Time not recorded'
+                    ) : (
+                      <span className="flex items-center gap-1">
+                        <Clock size={12} /> Not yet
+                      </span>
+                    )}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
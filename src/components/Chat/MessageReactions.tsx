@@ -0,0 +1,100 @@
+import { useEffect, useRef, useState } from 'react';
+import { Smile } from 'lucide-react';
+import type { Reaction } from '../../types/chat';
+
+const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionPickerProps {
+  isOwn: boolean;
+  onSelect: (emoji: string) => void;
+}
+
+export const ReactionPicker = ({ isOwn, onSelect }: ReactionPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  return (
+    <div ref={pickerRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="p-1 text-gray-500 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+        title="React"
+      >
+        <Smile size={16} />
+      </button>
+      {open && (
+        <div
+          className={`absolute top-6 z-20 flex gap-1 bg-gray-800 border border-violet-500/30 rounded-full shadow-xl px-2 py-1 ${
+            isOwn ? 'right-0' : 'left-0'
+          }`}
+        >
+          {REACTION_EMOJIS.map((emoji) => (
+            <button
+              key={emoji}
+              onClick={() => {
+                setOpen(false);
+                onSelect(emoji);
+              }}
+              className="text-lg hover:scale-125 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+interface ReactionBarProps {
+  reactions: Reaction[];
+  currentUserId?: string;
+  getName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+export const ReactionBar = ({ reactions, currentUserId, getName, onToggle }: ReactionBarProps) => {
+  if (reactions.length === 0) return null;
+
+  // Keep emojis in the order they were first used
+  const grouped = new Map<string, string[]>();
+  reactions.forEach((r) => {
+    grouped.set(r.emoji, [...(grouped.get(r.emoji) || []), r.user_id]);
+  });
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-1">
+      {[...grouped].map(([emoji, userIds]) => {
+        const reactedByMe = !!currentUserId && userIds.includes(currentUserId);
+        return (
+          <button
+            key={emoji}
+            onClick={() => onToggle(emoji)}
+            title={userIds.map((id) => (id === currentUserId ? 'You' : getName(id))).join(', ')}
+            className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border transition-all ${
+              reactedByMe
+                ? 'bg-violet-500/30 border-violet-400 text-white'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-violet-500/50'
+            }`}
+          >
+            <span>{emoji}</span>
+            <span>{userIds.length}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
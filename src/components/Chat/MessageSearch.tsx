@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { messageService } from '../../services/messages';
+import { useAuth } from '../../contexts/AuthContext';
+import { Search, Users, User, X } from 'lucide-react';
+import type { SearchResult } from '../../types/chat';
+
+interface MessageSearchProps {
+  onOpenResult: (result: SearchResult) => void;
+}
+
+// ts_headline wraps matches in <mark>; split on it rather than injecting HTML
+const renderSnippet = (snippet: string) =>
+  snippet.split(/<mark>(.*?)<\/mark>/g).map((part, i) =>
+    i % 2 === 1 ? (
+      <mark key={i} className="bg-violet-500/40 text-white rounded px-0.5">{part}</mark>
+    ) : (
+      <span key={i}>{part}</span>
+    )
+  );
+
+export const MessageSearch = ({ onOpenResult }: MessageSearchProps) => {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed || !user) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    let cancelled = false;
+
+    const timer = setTimeout(async () => {
+      let found: SearchResult[] = [];
+      try {
+        found = await messageService.search(trimmed, 30);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+      }
+
+      if (cancelled) return;
+      setResults(found);
+      setSearching(false);
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, user]);
+
+  return (
+    <div className="border-b border-violet-500/20">
+      <div className="p-3">
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search messages..."
+            className="w-full pl-9 pr-8 py-2 bg-gray-900/50 border border-violet-500/30 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 focus:ring-2 focus:ring-violet-500/20 transition-all"
+          />
+          {query && (
+            <button
+              onClick={() => setQuery('')}
+              className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400 hover:text-white"
+            >
+              <X size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {query.trim() && (
+        <div className="max-h-96 overflow-y-auto divide-y divide-violet-500/10 border-t border-violet-500/20">
+          {searching ? (
+            <div className="p-4 flex justify-center">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+            </div>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-center text-gray-400">No messages found</p>
+          ) : (
+            results.map((result) => (
+              <button
+                key={`${result.kind}_${result.message_id}`}
+                onClick={() => onOpenResult(result)}
+                className="w-full p-3 text-left hover:bg-violet-500/10 transition-all"
+              >
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <p className="text-sm font-medium text-white truncate flex items-center gap-1">
+                    {result.kind === 'group' ? <Users size={14} className="text-violet-400" /> : <User size={14} className="text-violet-400" />}
+                    {result.conversation_name}
+                  </p>
+                  <span className="text-xs text-gray-500 flex-shrink-0">
+                    {new Date(result.created_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-400 line-clamp-2">
+                  <span className="text-gray-300">
+                    {result.sender_id === user?.uid ? 'You' : result.sender_name}:{' '}
+                  </span>
+                  {renderSnippet(result.snippet)}
+                </p>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
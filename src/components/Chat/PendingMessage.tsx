@@ -0,0 +1,99 @@
+import { useEffect, useState } from 'react';
+import { Clock, AlertCircle, RotateCw, Trash2 } from 'lucide-react';
+import type { OutboxEntry } from '../../services/outbox';
+import { MessageAttachments } from './Attachments';
+import { ReplyQuote } from './ReplyQuote';
+import type { MessageFile, QuotedMessage } from '../../types/chat';
+
+interface PendingMessageProps {
+  entry: OutboxEntry;
+  quotedMessage?: QuotedMessage | null;
+  quoteSenderName: string;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// An outbox entry rendered like a sent message until the server row replaces it.
+// Files that are still uploading are previewed from the local blob.
+export const PendingMessage = ({
+  entry,
+  quotedMessage,
+  quoteSenderName,
+  onRetry,
+  onDiscard
+}: PendingMessageProps) => {
+  const [files, setFiles] = useState<MessageFile[]>([]);
+
+  useEffect(() => {
+    const objectUrls: string[] = [];
+    setFiles(
+      entry.files.map((file) => {
+        let url = file.url || '';
+        if (!url && file.blob) {
+          url = URL.createObjectURL(file.blob);
+          objectUrls.push(url);
+        }
+        return { file_name: file.name, file_type: file.type, firebase_url: url };
+      })
+    );
+
+    return () => objectUrls.forEach((url) => URL.revokeObjectURL(url));
+  }, [entry.files]);
+
+  const failed = entry.status === 'failed';
+  const uploading = !failed && entry.files.some((file) => !file.url);
+
+  return (
+    <div className="flex justify-end">
+      <div className="max-w-md flex flex-col items-end">
+        <div
+          className={`px-4 py-2 rounded-2xl text-white bg-gradient-to-r from-violet-600 to-purple-600 ${
+            failed ? 'opacity-60 ring-1 ring-red-500' : 'opacity-80'
+          }`}
+        >
+          {entry.replyToId && <ReplyQuote message={quotedMessage} senderName={quoteSenderName} />}
+          {files.length > 0 ? (
+            <div>
+              <MessageAttachments files={files} />
+              {entry.content && <p className="whitespace-pre-wrap break-words mt-2">{entry.content}</p>}
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap break-words">{entry.content}</p>
+          )}
+          {uploading && (
+            <div className="mt-2 space-y-1">
+              {entry.files.map((file, i) => (
+                <div key={`${file.name}_${i}`}>
+                  <p className="text-xs text-violet-200 truncate">{file.name}</p>
+                  <div className="w-full bg-white/20 rounded-full h-1">
+                    <div
+                      className="bg-white h-1 rounded-full transition-all"
+                      style={{ width: `${file.url ? 100 : file.progress ?? 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+          <div className="flex items-center justify-end gap-1 mt-1 text-xs text-violet-200">
+            <span>{new Date(entry.createdAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+            {failed ? <AlertCircle size={14} className="text-red-400" /> : <Clock size={14} />}
+          </div>
+        </div>
+        {failed && (
+          <div className="flex items-center gap-3 mt-1 text-xs">
+            <span className="text-red-400">Not sent</span>
+            <button onClick={onRetry} className="flex items-center gap-1 text-gray-300 hover:text-white">
+              <RotateCw size={12} />
+              Retry
+            </button>
+            <button onClick={onDiscard} className="flex items-center gap-1 text-gray-300 hover:text-white">
+              <Trash2 size={12} />
+              Discard
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,21 @@
+import { formatLastSeen } from '../../hooks/usePresence';
+import type { Presence } from '../../services/presence';
+import type { PresenceStatus } from '../../types/socket';
+
+const DOT_COLORS: Record<PresenceStatus, string> = {
+  online: 'bg-green-500',
+  away: 'bg-yellow-500',
+  offline: 'bg-gray-500'
+};
+
+interface PresenceDotProps {
+  presence: Presence;
+  className?: string;
+}
+
+export const PresenceDot = ({ presence, className = 'w-3 h-3 bottom-0 right-0' }: PresenceDotProps) => (
+  <span
+    title={formatLastSeen(presence)}
+    className={`absolute rounded-full border-2 border-gray-800 ${DOT_COLORS[presence.status]} ${className}`}
+  />
+);
@@ -1,9 +1,8 @@
 import { useState, useEffect, useRef } from 'react';
-import { supabase } from '../../config/supabase';
+import { profileService } from '../../services/profiles';
+import { fileService } from '../../services/files';
 import { useAuth } from '../../contexts/AuthContext';
 import { User, Camera, Save, X } from 'lucide-react';
-import { ref as storageRef, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
-import { storage } from '../../config/firebase';
 
 interface ProfileProps {
   onClose: () => void;
@@ -28,19 +27,14 @@ export const Profile = ({ onClose }: ProfileProps) => {
   const loadProfile = async () => {
     if (!user) return;
 
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('display_name, bio, avatar_url')
-      .eq('id', user.uid)
-      .single();
-
-    if (error) {
-      console.error('Error loading profile:', error);
-    } else if (data) {
+    try {
+      const data = await profileService.getProfile(user.uid);
       setDisplayName(data.display_name || '');
       setBio(data.bio || '');
       setAvatarUrl(data.avatar_url || '');
       setPreviewUrl(data.avatar_url || '');
+    } catch (error) {
+      console.error('Error loading profile:', error);
     }
   };
 
@@ -64,27 +58,8 @@ export const Profile = ({ onClose }: ProfileProps) => {
     }
   };
 
-  const uploadImage = async (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const fileRef = storageRef(storage, `avatars/${user?.uid}/${Date.now()}_${file.name}`);
-      const uploadTask = uploadBytesResumable(fileRef, file);
-
-      uploadTask.on(
-        'state_changed',
-        (snapshot) => {
-          const progress = (snapshot.bytesTransferred / snapshot.totalBytes) * 100;
-          setUploadProgress(progress);
-        },
-        (error) => {
-          reject(error);
-        },
-        async () => {
-          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
-          resolve(downloadURL);
-        }
-      );
-    });
-  };
+  const uploadImage = (file: File) =>
+    fileService.upload(`avatars/${user?.uid}`, file, file.name, setUploadProgress);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -100,17 +75,11 @@ export const Profile = ({ onClose }: ProfileProps) => {
         newAvatarUrl = await uploadImage(selectedImage);
       }
 
-      const { error } = await supabase
-        .from('profiles')
-        .update({
-          display_name: displayName,
-          bio: bio,
-          avatar_url: newAvatarUrl,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', user.uid);
-
-      if (error) throw error;
+      await profileService.updateProfile(user.uid, {
+        display_name: displayName,
+        bio: bio,
+        avatar_url: newAvatarUrl
+      });
 
       alert('Profile updated successfully!');
       onClose();
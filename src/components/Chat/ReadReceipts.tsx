@@ -0,0 +1,101 @@
+import { useEffect, useRef, useState } from 'react';
+import { Eye } from 'lucide-react';
+import type { ProfileSummary } from '../../types/chat';
+
+const MAX_AVATARS = 5;
+
+const MiniAvatar = ({ profile }: { profile: ProfileSummary }) => (
+  <div
+    title={profile.display_name}
+    className="w-4 h-4 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white text-[8px] font-semibold overflow-hidden ring-1 ring-gray-900"
+  >
+    {profile.avatar_url ? (
+      <img src={profile.avatar_url} alt={profile.display_name} className="w-full h-full object-cover" />
+    ) : (
+      profile.display_name.charAt(0).toUpperCase()
+    )}
+  </div>
+);
+
+interface ReadAvatarsProps {
+  readers: ProfileSummary[];
+  isOwn: boolean;
+}
+
+// Members whose read position is this message
+export const ReadAvatars = ({ readers, isOwn }: ReadAvatarsProps) => {
+  if (readers.length === 0) return null;
+
+  return (
+    <div className={`flex items-center -space-x-1 mt-1 ${isOwn ? 'justify-end' : 'justify-start'}`}>
+      {readers.slice(0, MAX_AVATARS).map((profile) => (
+        <MiniAvatar key={profile.id} profile={profile} />
+      ))}
+      {readers.length > MAX_AVATARS && (
+        <span className="pl-2 text-[10px] text-gray-400">+{readers.length - MAX_AVATARS}</span>
+      )}
+    </div>
+  );
+};
+
+interface SeenByProps {
+  seen: ProfileSummary[];
+  notSeen: ProfileSummary[];
+}
+
+export const SeenBy = ({ seen, notSeen }: SeenByProps) => {
+  const [open, setOpen] = useState(false);
+  const popoverRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (popoverRef.current && !popoverRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const total = seen.length + notSeen.length;
+  if (total === 0) return null;
+
+  return (
+    <div ref={popoverRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 mt-1 text-[11px] text-gray-400 hover:text-violet-300 transition-colors"
+      >
+        <Eye size={12} />
+        Seen by {seen.length} of {total}
+      </button>
+      {open && (
+        <div className="absolute right-0 bottom-6 z-20 w-56 max-h-64 overflow-y-auto bg-gray-800 border border-violet-500/30 rounded-lg shadow-xl p-3 space-y-3 text-sm">
+          {[
+            { label: 'Seen', profiles: seen },
+            { label: 'Not yet', profiles: notSeen }
+          ].map(({ label, profiles }) =>
+            profiles.length > 0 ? (
+              <div key={label}>
+                <p className="text-xs font-semibold text-gray-400 uppercase mb-1">
+                  {label} ({profiles.length})
+                </p>
+                <ul className="space-y-1">
+                  {profiles.map((profile) => (
+                    <li key={profile.id} className="flex items-center gap-2 text-white">
+                      <MiniAvatar profile={profile} />
+                      <span className="truncate">{profile.display_name}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
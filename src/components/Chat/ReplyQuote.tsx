@@ -0,0 +1,39 @@
+import { Paperclip, X } from 'lucide-react';
+import type { QuotedMessage } from '../../types/chat';
+
+interface ReplyQuoteProps {
+  message: QuotedMessage | null | undefined;
+  senderName: string;
+  onClick?: () => void;
+  onCancel?: () => void;
+}
+
+export const ReplyQuote = ({ message, senderName, onClick, onCancel }: ReplyQuoteProps) => {
+  const preview = !message
+    ? 'Original message unavailable'
+    : message.deleted_at
+      ? 'This message was deleted'
+      : message.content;
+
+  return (
+    <div
+      onClick={message ? onClick : undefined}
+      className={`flex items-start gap-2 border-l-4 border-violet-400 bg-black/20 rounded px-2 py-1 mb-1 ${
+        message && onClick ? 'cursor-pointer hover:bg-black/30' : ''
+      }`}
+    >
+      <div className="flex-1 min-w-0">
+        <p className="text-xs font-semibold text-violet-300 truncate">{senderName}</p>
+        <p className={`text-xs truncate flex items-center gap-1 ${message && !message.deleted_at ? 'text-gray-300' : 'text-gray-400 italic'}`}>
+          {message?.message_type === 'file' && !message.deleted_at && <Paperclip size={12} />}
+          {preview}
+        </p>
+      </div>
+      {onCancel && (
+        <button onClick={onCancel} className="text-gray-400 hover:text-white">
+          <X size={16} />
+        </button>
+      )}
+    </div>
+  );
+};
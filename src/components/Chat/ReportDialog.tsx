@@ -0,0 +1,104 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Flag } from 'lucide-react';
+import { moderationService } from '../../services/moderation';
+import type { ReportReason, ReportedMessage } from '../../types/chat';
+
+const REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'inappropriate', label: 'Inappropriate content' },
+  { value: 'other', label: 'Something else' }
+];
+
+interface ReportDialogProps {
+  userId: string;
+  userName: string;
+  // Set when reporting a single message rather than the user
+  message?: ReportedMessage & { content: string };
+  onClose: () => void;
+}
+
+export const ReportDialog = ({ userId, userName, message, onClose }: ReportDialogProps) => {
+  const [reason, setReason] = useState<ReportReason>('spam');
+  const [details, setDetails] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      await moderationService.report(
+        userId,
+        reason,
+        details.trim(),
+        message ? { kind: message.kind, id: message.id } : undefined
+      );
+      alert('Thanks, your report was sent to the moderators');
+      onClose();
+    } catch (error) {
+      console.error('Error sending report:', error);
+      alert('Failed to send report');
+      setSubmitting(false);
+    }
+  };
+
+  // Opened from the sidebar too, whose backdrop blur would otherwise contain the overlay
+  return createPortal(
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="bg-gray-800/90 backdrop-blur-lg rounded-2xl shadow-2xl border border-violet-500/20 max-w-md w-full">
+        <div className="p-6 border-b border-violet-500/20 flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-transparent bg-clip-text bg-gradient-to-r from-violet-400 to-purple-600">
+            {message ? 'Report Message' : `Report ${userName}`}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            <X size={24} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {message && (
+            <div className="px-4 py-2 rounded-2xl bg-gray-700/50 text-white">
+              <p className="text-xs text-gray-400 mb-1">{userName}</p>
+              <p className="whitespace-pre-wrap break-words line-clamp-4">{message.content || '📎 File'}</p>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {REASONS.map(({ value, label }) => (
+              <label key={value} className="flex items-center gap-3 text-white cursor-pointer">
+                <input
+                  type="radio"
+                  name="report-reason"
+                  value={value}
+                  checked={reason === value}
+                  onChange={() => setReason(value)}
+                  className="accent-violet-500"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <textarea
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={1000}
+            rows={3}
+            placeholder="Anything the moderators should know (optional)"
+            className="w-full px-4 py-2 bg-gray-900/50 border border-violet-500/30 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-violet-500 resize-none"
+          />
+
+          <button
+            onClick={handleSubmit}
+            disabled={submitting}
+            className="w-full py-2 bg-red-600 hover:bg-red-700 text-white rounded-lg transition-colors disabled:opacity-50 flex items-center justify-center gap-2"
+          >
+            <Flag size={18} />
+            {submitting ? 'Sending…' : 'Send Report'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
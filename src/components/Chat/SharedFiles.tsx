@@ -0,0 +1,217 @@
+import { useEffect, useState } from 'react';
+import { fileService, FileCategory as SharedFileCategory, FileSort } from '../../services/files';
+import { Image, FileText, Paperclip, Link, MessageSquare } from 'lucide-react';
+import type { MessageKind, SharedFile, SharedLink } from '../../types/chat';
+
+const PAGE_SIZE = 30;
+
+type FileCategory = SharedFileCategory | 'link';
+
+interface SharedFilesProps {
+  kind: MessageKind;
+  conversationId: string;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const TABS: { category: FileCategory; label: string; icon: typeof Image }[] = [
+  { category: 'image', label: 'Images', icon: Image },
+  { category: 'document', label: 'Documents', icon: FileText },
+  { category: 'other', label: 'Other', icon: Paperclip },
+  { category: 'link', label: 'Links', icon: Link }
+];
+
+const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+export const SharedFiles = ({ kind, conversationId, onJumpToMessage }: SharedFilesProps) => {
+  const [category, setCategory] = useState<FileCategory>('image');
+  const [sort, setSort] = useState<FileSort>('date');
+  const [files, setFiles] = useState<SharedFile[]>([]);
+  const [links, setLinks] = useState<SharedLink[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    const offset = page * PAGE_SIZE;
+    const load = async () => {
+      try {
+        if (category === 'link') {
+          const rows = await fileService.listConversationLinks(kind, conversationId, PAGE_SIZE, offset);
+          if (cancelled) return;
+          setLinks((prev) => (page === 0 ? rows : [...prev, ...rows]));
+          setHasMore(rows.length === PAGE_SIZE);
+        } else {
+          const rows = await fileService.listConversationFiles(kind, conversationId, category, sort, PAGE_SIZE, offset);
+          if (cancelled) return;
+          setFiles((prev) => (page === 0 ? rows : [...prev, ...rows]));
+          setHasMore(rows.length === PAGE_SIZE);
+        }
+      } catch (error) {
+        console.error('Error loading shared files:', error);
+      }
+      if (!cancelled) setLoading(false);
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [kind, conversationId, category, sort, page]);
+
+  // Changing the listing starts over from the first page
+  const selectCategory = (next: FileCategory) => {
+    setCategory(next);
+    setFiles([]);
+    setLinks([]);
+    setPage(0);
+  };
+
+  const selectSort = (next: FileSort) => {
+    setSort(next);
+    setFiles([]);
+    setLinks([]);
+    setPage(0);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-lg font-semibold text-white">Media, files & links</h4>
+        {category !== 'link' && (
+          <select
+            value={sort}
+            onChange={(e) => selectSort(e.target.value as FileSort)}
+            className="px-3 py-1 bg-gray-900/50 border border-violet-500/30 rounded-lg text-sm text-white focus:outline-none focus:border-violet-500"
+          >
+            <option value="date">Newest first</option>
+            <option value="size">Largest first</option>
+          </select>
+        )}
+      </div>
+
+      <div className="flex border-b border-violet-500/20 mb-4">
+        {TABS.map(({ category: tab, label, icon: Icon }) => (
+          <button
+            key={tab}
+            onClick={() => selectCategory(tab)}
+            className={`flex-1 py-2 flex items-center justify-center gap-2 text-sm transition-all ${
+              category === tab
+                ? 'text-white border-b-2 border-violet-500'
+                : 'text-gray-400 hover:text-white'
+            }`}
+          >
+            <Icon size={16} />
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {(category === 'link' ? links.length : files.length) === 0 && !loading ? (
+        <p className="text-gray-400 text-center py-4">Nothing shared yet</p>
+      ) : category === 'link' ? (
+        <div className="space-y-2">
+          {links.map((link, i) => (
+            <div key={`${link.message_id}_${i}`} className="flex items-center gap-3 p-3 bg-gray-900/50 rounded-lg">
+              <Link size={20} className="text-violet-400 flex-shrink-0" />
+              <a
+                href={link.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 min-w-0 hover:underline"
+              >
+                <p className="text-sm text-white truncate">{link.url}</p>
+                <p className="text-xs text-gray-400">{formatDate(link.created_at)}</p>
+              </a>
+              <button
+                onClick={() => onJumpToMessage(link.message_id)}
+                className="p-2 text-gray-400 hover:text-violet-400 transition-colors"
+                title="Show in chat"
+              >
+                <MessageSquare size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : category === 'image' ? (
+        <div className="grid grid-cols-3 gap-2">
+          {files.map((file) => (
+            <div key={file.id} className="relative group">
+              <a href={file.firebase_url} target="_blank" rel="noopener noreferrer">
+                <img
+                  src={file.firebase_url}
+                  alt={file.file_name}
+                  title={`${file.file_name} · ${formatFileSize(file.file_size)} · ${formatDate(file.created_at)}`}
+                  className="w-full h-24 object-cover rounded-lg"
+                />
+              </a>
+              <button
+                onClick={() => onJumpToMessage(file.message_id)}
+                className="absolute top-1 right-1 p-1 bg-black/60 rounded-full text-gray-300 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Show in chat"
+              >
+                <MessageSquare size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {files.map((file) => (
+            <div key={file.id} className="flex items-center gap-3 p-3 bg-gray-900/50 rounded-lg">
+              {category === 'document' ? (
+                <FileText size={20} className="text-violet-400 flex-shrink-0" />
+              ) : (
+                <Paperclip size={20} className="text-violet-400 flex-shrink-0" />
+              )}
+              <a
+                href={file.firebase_url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-1 min-w-0 hover:underline"
+              >
+                <p className="text-sm text-white truncate">{file.file_name}</p>
+                <p className="text-xs text-gray-400">
+                  {formatFileSize(file.file_size)} · {formatDate(file.created_at)}
+                </p>
+              </a>
+              <button
+                onClick={() => onJumpToMessage(file.message_id)}
+                className="p-2 text-gray-400 hover:text-violet-400 transition-colors"
+                title="Show in chat"
+              >
+                <MessageSquare size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-violet-500"></div>
+        </div>
+      ) : (
+        hasMore && (
+          <button
+            onClick={() => setPage((p) => p + 1)}
+            className="w-full mt-4 py-2 bg-gray-700 text-white rounded-lg text-sm font-medium hover:bg-gray-600 transition-all"
+          >
+            Load more
+          </button>
+        )
+      )}
+    </div>
+  );
+};
@@ -1,83 +1,79 @@
-import { useEffect, useState } from 'react';
-import { supabase } from '../../config/supabase';
+import { useEffect, useRef, useState } from 'react';
+import { conversationService, isArchived, isMuted } from '../../services/conversations';
+import { profileService } from '../../services/profiles';
 import { useAuth } from '../../contexts/AuthContext';
-import { User, Circle } from 'lucide-react';
-
-interface Profile {
-  id: string;
-  email: string;
-  display_name: string;
-  avatar_url?: string;
-  online_status: boolean;
-  last_seen: string;
-}
-
-interface LastMessage {
-  content: string;
-  created_at: string;
-  sender_id: string;
-  message_type: string;
-}
-
-interface UserWithMessages extends Profile {
-  unreadCount: number;
-  lastMessage?: LastMessage;
-}
+import { User, Pin, BellOff, Archive, Ban, ChevronDown, ChevronRight } from 'lucide-react';
+import { PresenceDot } from './PresenceDot';
+import { ConversationMenu } from './ConversationMenu';
+import { ReportDialog } from './ReportDialog';
+import { usePresence, formatLastSeen } from '../../hooks/usePresence';
+import { useBlockedUsers } from '../../hooks/useBlockedUsers';
+import { moderationService } from '../../services/moderation';
+import type { ConversationSettings, DirectConversation, DirectMessage, LastMessage, Profile } from '../../types/chat';
 
 interface UserListProps {
   selectedUserId: string | null;
   onSelectUser: (userId: string, displayName: string) => void;
 }
 
+const EMPTY_SETTINGS: ConversationSettings = { pinned_at: null, muted_until: null, archived_at: null };
+
+// Pinned conversations first in pin order, then unread ones (unless muted),
+// then by last message time, then by name
+const sortConversations = (conversations: DirectConversation[]) =>
+  [...conversations].sort((a, b) => {
+    if (a.settings.pinned_at && b.settings.pinned_at) {
+      return new Date(a.settings.pinned_at).getTime() - new Date(b.settings.pinned_at).getTime();
+    }
+    if (a.settings.pinned_at) return -1;
+    if (b.settings.pinned_at) return 1;
+
+    const aUnread = a.unreadCount > 0 && !isMuted(a.settings);
+    const bUnread = b.unreadCount > 0 && !isMuted(b.settings);
+    if (aUnread && !bUnread) return -1;
+    if (!aUnread && bUnread) return 1;
+    
+    if (a.lastMessage && b.lastMessage) {
+      return new Date(b.lastMessage.created_at).getTime() - new Date(a.lastMessage.created_at).getTime();
+    }
+    if (a.lastMessage && !b.lastMessage) return -1;
+    if (!a.lastMessage && b.lastMessage) return 1;
+    
+    return a.display_name.localeCompare(b.display_name);
+  });
+
 export const UserList = ({ selectedUserId, onSelectUser }: UserListProps) => {
-  const [users, setUsers] = useState<UserWithMessages[]>([]);
+  const [users, setUsers] = useState<DirectConversation[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
+  const [reporting, setReporting] = useState<DirectConversation | null>(null);
+  const refreshTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
   const { user } = useAuth();
+  const getPresence = usePresence();
+  const { blockedIds, block, unblock } = useBlockedUsers();
 
   useEffect(() => {
     if (user) {
       loadUsers();
-      
-      // Set up real-time subscription for profiles
-      const profileChannel = supabase
-        .channel('profiles_realtime')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'profiles'
-          },
-          () => {
-            loadUsers();
-          }
-        )
-        .subscribe();
 
-      // Set up real-time subscription for messages
-      const messagesChannel = supabase
-        .channel('messages_realtime')
-        .on(
-          'postgres_changes',
-          {
-            event: '*',
-            schema: 'public',
-            table: 'messages'
-          },
-          (payload) => {
-            const message = payload.new as any;
-            // Reload users list to update unread counts and last message
-            // Only if the message involves the current user
-            if (message.receiver_id === user.uid || message.sender_id === user.uid) {
-              loadUsers();
-            }
-          }
-        )
-        .subscribe();
+      // The list is loaded once and then patched from realtime payloads
+      const refreshTimers = refreshTimersRef.current;
+      const unsubscribeProfiles = profileService.subscribe(applyProfileChange);
+      // Blocking hides or reveals the other side's messages
+      const unsubscribeBlocks = moderationService.subscribeToBlocks(loadUsers);
+      const unsubscribeMessages = conversationService.subscribeToDirectConversations(user.uid, {
+        onInsert: applyNewMessage,
+        onUpdate: (message) => scheduleRefresh(getPartnerId(message)),
+        onSettingsChange: scheduleRefresh
+      });
 
       return () => {
-        supabase.removeChannel(profileChannel);
-        supabase.removeChannel(messagesChannel);
+        unsubscribeProfiles();
+        unsubscribeBlocks();
+        unsubscribeMessages();
+        refreshTimers.forEach((timer) => clearTimeout(timer));
+        refreshTimers.clear();
       };
     }
   }, [user]);
@@ -85,61 +81,88 @@ export const UserList = ({ selectedUserId, onSelectUser }: UserListProps) => {
   const loadUsers = async () => {
     if (!user) return;
 
-    const { data: profiles, error } = await supabase
-      .from('profiles')
-      .select('id, email, display_name, avatar_url, online_status, last_seen')
-      .neq('id', user.uid)
-      .order('display_name', { ascending: true });
-
-    if (error) {
+    try {
+      setUsers(sortConversations(await conversationService.listDirectConversations()));
+    } catch (error) {
       console.error('Error loading users:', error);
-      setLoading(false);
-      return;
     }
+    setLoading(false);
+  };
 
-    // Load message data for each user
-    const usersWithMessages = await Promise.all(
-      (profiles || []).map(async (profile) => {
-        // Get unread count
-        const { count: unreadCount } = await supabase
-          .from('messages')
-          .select('*', { count: 'exact', head: true })
-          .eq('sender_id', profile.id)
-          .eq('receiver_id', user.uid)
-          .eq('read', false);
+  const getPartnerId = (message: DirectMessage) =>
+    message.sender_id === user?.uid ? message.receiver_id : message.sender_id;
 
-        // Get last message (either sent or received)
-        const { data: lastMessages } = await supabase
-          .from('messages')
-          .select('content, created_at, sender_id, message_type')
-          .or(`and(sender_id.eq.${profile.id},receiver_id.eq.${user.uid}),and(sender_id.eq.${user.uid},receiver_id.eq.${profile.id})`)
-          .order('created_at', { ascending: false })
-          .limit(1);
+  const applyProfileChange = (profile: Profile) => {
+    if (profile.id === user?.uid) return;
 
-        return {
-          ...profile,
-          unreadCount: unreadCount || 0,
-          lastMessage: lastMessages?.[0]
-        };
-      })
+    setUsers((prev) =>
+      sortConversations(
+        prev.some((u) => u.id === profile.id)
+          ? prev.map((u) => (u.id === profile.id ? { ...u, ...profile } : u))
+          : [...prev, { ...profile, unreadCount: 0, settings: EMPTY_SETTINGS }]
+      )
     );
+  };
 
-    // Sort by: 1) unread messages first, 2) then by last message time, 3) then by name
-    usersWithMessages.sort((a, b) => {
-      if (a.unreadCount > 0 && b.unreadCount === 0) return -1;
-      if (a.unreadCount === 0 && b.unreadCount > 0) return 1;
-      
-      if (a.lastMessage && b.lastMessage) {
-        return new Date(b.lastMessage.created_at).getTime() - new Date(a.lastMessage.created_at).getTime();
-      }
-      if (a.lastMessage && !b.lastMessage) return -1;
-      if (!a.lastMessage && b.lastMessage) return 1;
-      
-      return a.display_name.localeCompare(b.display_name);
-    });
+  const applyNewMessage = (message: DirectMessage) => {
+    const partnerId = getPartnerId(message);
+    const incoming = message.sender_id === partnerId && !message.read;
 
-    setUsers(usersWithMessages);
-    setLoading(false);
+    setUsers((prev) =>
+      sortConversations(
+        prev.map((u) =>
+          u.id === partnerId
+            ? {
+                ...u,
+                unreadCount: u.unreadCount + (incoming ? 1 : 0),
+                lastMessage: {
+                  content: message.content,
+                  created_at: message.created_at,
+                  sender_id: message.sender_id,
+                  message_type: message.message_type
+                }
+              }
+            : u
+        )
+      )
+    );
+  };
+
+  // Update payloads don't say what changed (a read receipt, an edit or a
+  // delete), so the affected row is re-read. Marking a chat as read updates
+  // many messages at once, hence the debounce per partner.
+  const scheduleRefresh = (partnerId: string) => {
+    const timers = refreshTimersRef.current;
+    clearTimeout(timers.get(partnerId));
+    timers.set(
+      partnerId,
+      setTimeout(async () => {
+        timers.delete(partnerId);
+        try {
+          const conversation = await conversationService.getDirectConversation(partnerId);
+          if (conversation) {
+            setUsers((prev) => sortConversations(prev.map((u) => (u.id === partnerId ? conversation : u))));
+          }
+        } catch (error) {
+          console.error('Error refreshing conversation:', error);
+        }
+      }, 300)
+    );
+  };
+
+  const updateSettings = async (partnerId: string, fields: Partial<ConversationSettings>) => {
+    if (!user) return;
+
+    setUsers((prev) =>
+      sortConversations(prev.map((u) => (u.id === partnerId ? { ...u, settings: { ...u.settings, ...fields } } : u)))
+    );
+    try {
+      await conversationService.updateSettings(user.uid, { type: 'dm', id: partnerId }, fields);
+    } catch (error) {
+      console.error('Error updating conversation settings:', error);
+      alert('Failed to update conversation settings');
+      scheduleRefresh(partnerId);
+    }
   };
 
   const formatLastMessage = (msg: LastMessage, senderId: string) => {
@@ -189,6 +212,89 @@ export const UserList = ({ selectedUserId, onSelectUser }: UserListProps) => {
     return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  const renderConversation = (profile: DirectConversation) => {
+    const muted = isMuted(profile.settings);
+    const highlighted = profile.unreadCount > 0 && !muted;
+    const presence = getPresence(profile.id);
+
+    return (
+      <div key={profile.id} className="relative group">
+        <button
+          onClick={() => onSelectUser(profile.id, profile.display_name)}
+          className={`w-full p-4 pr-10 flex items-start gap-3 hover:bg-violet-500/10 transition-all ${
+            selectedUserId === profile.id ? 'bg-violet-500/20' : ''
+          } ${highlighted ? 'bg-violet-500/5' : ''}`}
+        >
+          <div className="relative flex-shrink-0">
+            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white font-semibold">
+              {profile.avatar_url ? (
+                <img
+                  src={profile.avatar_url}
+                  alt={profile.display_name}
+                  className="w-full h-full rounded-full object-cover"
+                />
+              ) : (
+                <User size={24} />
+              )}
+            </div>
+            <PresenceDot presence={presence} />
+          </div>
+          <div className="flex-1 min-w-0 text-left">
+            <div className="flex items-center justify-between mb-1">
+              <p className={`font-medium truncate flex items-center gap-1 ${highlighted ? 'text-white' : 'text-gray-200'}`}>
+                <span className="truncate">{profile.display_name}</span>
+                {profile.settings.pinned_at && <Pin size={12} className="text-violet-400 flex-shrink-0" />}
+                {muted && <BellOff size={12} className="text-gray-500 flex-shrink-0" />}
+              </p>
+              {profile.lastMessage && (
+                <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
+                  {formatTime(profile.lastMessage.created_at)}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              {profile.lastMessage ? (
+                <p className={`text-sm truncate ${highlighted ? 'text-white font-medium' : 'text-gray-400'}`}>
+                  {formatLastMessage(profile.lastMessage, profile.lastMessage.sender_id)}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-500 italic">No messages yet</p>
+              )}
+              {profile.unreadCount > 0 && (
+                <span
+                  className={`${
+                    muted ? 'bg-gray-600' : 'bg-violet-600'
+                  } text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5 flex-shrink-0`}
+                >
+                  {profile.unreadCount > 99 ? '99+' : profile.unreadCount}
+                </span>
+              )}
+            </div>
+            <p className={`text-xs mt-1 truncate ${presence.status === 'online' ? 'text-green-400' : 'text-gray-500'}`}>
+              {formatLastSeen(presence)}
+            </p>
+          </div>
+        </button>
+        <div className="absolute right-2 bottom-3">
+          <ConversationMenu
+            settings={profile.settings}
+            lastMessage={profile.lastMessage}
+            onChange={(fields) => updateSettings(profile.id, fields)}
+            blocked={blockedIds.has(profile.id)}
+            onToggleBlock={() =>
+              blockedIds.has(profile.id) ? unblock(profile.id) : block(profile.id, profile.display_name)
+            }
+            onReport={() => setReporting(profile)}
+          />
+        </div>
+      </div>
+    );
+  };
+
+  const blocked = users.filter((u) => blockedIds.has(u.id));
+  const active = users.filter((u) => !blockedIds.has(u.id) && !isArchived(u));
+  const archived = users.filter((u) => !blockedIds.has(u.id) && isArchived(u));
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -204,61 +310,33 @@ export const UserList = ({ selectedUserId, onSelectUser }: UserListProps) => {
         <p className="text-sm text-gray-400">{users.length} contacts</p>
       </div>
       <div className="divide-y divide-violet-500/10">
-        {users.map((profile) => (
-          <button
-            key={profile.id}
-            onClick={() => onSelectUser(profile.id, profile.display_name)}
-            className={`w-full p-4 flex items-start gap-3 hover:bg-violet-500/10 transition-all ${
-              selectedUserId === profile.id ? 'bg-violet-500/20' : ''
-            } ${profile.unreadCount > 0 ? 'bg-violet-500/5' : ''}`}
-          >
-            <div className="relative flex-shrink-0">
-              <div className="w-12 h-12 rounded-full bg-gradient-to-br from-violet-500 to-purple-600 flex items-center justify-center text-white font-semibold">
-                {profile.avatar_url ? (
-                  <img
-                    src={profile.avatar_url}
-                    alt={profile.display_name}
-                    className="w-full h-full rounded-full object-cover"
-                  />
-                ) : (
-                  <User size={24} />
-                )}
-              </div>
-              <Circle
-                size={12}
-                className={`absolute bottom-0 right-0 ${
-                  profile.online_status ? 'fill-green-500 text-green-500' : 'fill-gray-500 text-gray-500'
-                }`}
-              />
-            </div>
-            <div className="flex-1 min-w-0 text-left">
-              <div className="flex items-center justify-between mb-1">
-                <p className={`font-medium truncate ${profile.unreadCount > 0 ? 'text-white' : 'text-gray-200'}`}>
-                  {profile.display_name}
-                </p>
-                {profile.lastMessage && (
-                  <span className="text-xs text-gray-400 flex-shrink-0 ml-2">
-                    {formatTime(profile.lastMessage.created_at)}
-                  </span>
-                )}
-              </div>
-              <div className="flex items-center justify-between gap-2">
-                {profile.lastMessage ? (
-                  <p className={`text-sm truncate ${profile.unreadCount > 0 ? 'text-white font-medium' : 'text-gray-400'}`}>
-                    {formatLastMessage(profile.lastMessage, profile.lastMessage.sender_id)}
-                  </p>
-                ) : (
-                  <p className="text-sm text-gray-500 italic">No messages yet</p>
-                )}
-                {profile.unreadCount > 0 && (
-                  <span className="bg-violet-600 text-white text-xs font-bold rounded-full min-w-[20px] h-5 flex items-center justify-center px-1.5 flex-shrink-0">
-                    {profile.unreadCount > 99 ? '99+' : profile.unreadCount}
-                  </span>
-                )}
-              </div>
-            </div>
-          </button>
-        ))}
+        {active.map(renderConversation)}
+        {archived.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowArchived(!showArchived)}
+              className="w-full px-4 py-3 flex items-center gap-2 text-sm text-gray-400 hover:text-white hover:bg-violet-500/10 transition-all"
+            >
+              {showArchived ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+              <Archive size={16} />
+              Archived ({archived.length})
+            </button>
+            {showArchived && archived.map(renderConversation)}
+          </>
+        )}
+        {blocked.length > 0 && (
+          <>
+            <button
+              onClick={() => setShowBlocked(!showBlocked)}
+              className="w-full px-4 py-3 flex items-center gap-2 text-sm text-gray-400 hover:text-white hover:bg-violet-500/10 transition-all"
+            >
+              {showBlocked ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+              <Ban size={16} />
+              Blocked ({blocked.length})
+            </button>
+            {showBlocked && blocked.map(renderConversation)}
+          </>
+        )}
         {users.length === 0 && (
           <div className="p-8 text-center text-gray-400">
             <User size={48} className="mx-auto mb-4 opacity-50" />
@@ -266,6 +344,10 @@ export const UserList = ({ selectedUserId, onSelectUser }: UserListProps) => {
           </div>
         )}
       </div>
+
+      {reporting && (
+        <ReportDialog userId={reporting.id} userName={reporting.display_name} onClose={() => setReporting(null)} />
+      )}
     </div>
   );
 };
\ No newline at end of file
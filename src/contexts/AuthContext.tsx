@@ -6,9 +6,14 @@ import {
   signOut as firebaseSignOut,
   onAuthStateChanged
 } from 'firebase/auth';
-import { ref, set, onDisconnect, serverTimestamp } from 'firebase/database';
+import { ref, set } from 'firebase/database';
 import { auth, database } from '../config/firebase';
-import { supabase } from '../config/supabase';
+import { profileService } from '../services/profiles';
+import { socketService } from '../services/socket';
+import { outboxService } from '../services/outbox';
+import { presenceService } from '../services/presence';
+import { notificationService } from '../services/notifications';
+import { deliveryService } from '../services/receipts';
 
 interface AuthContextType { 
   user: User | null;
@@ -32,55 +37,35 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
-  const updateUserStatus = async (userId: string, online: boolean) => {
-    // Update Firebase Realtime Database
-    const userStatusRef = ref(database, `users/${userId}/status`);
-    await set(userStatusRef, {
-      online,
-      lastSeen: serverTimestamp()
-    });
-
-    if (online) {
-      onDisconnect(userStatusRef).set({
-        online: false,
-        lastSeen: serverTimestamp()
-      });
-    }
-
-    // Update Supabase
-    await supabase
-      .from('profiles')
-      .update({
-        online_status: online,
-        last_seen: new Date().toISOString()
-      })
-      .eq('id', userId);
-  };
-
   useEffect(() => {
     const unsubscribe = onAuthStateChanged(auth, async (user) => {
       setUser(user);
       if (user) {
-        // Check if profile exists in Supabase
-        const { data: existingProfile } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('id', user.uid)
-          .single();
-
-        // If missing, insert automatically
-        if (!existingProfile) {
-          await supabase.from('profiles').insert({
-            id: user.uid,
-            email: user.email,
-            display_name: user.displayName || user.email?.split('@')[0] || 'User',
-            online_status: true,
-            created_at: new Date().toISOString(),
-          });
+        // If the Supabase profile is missing, insert it automatically
+        if (!(await profileService.profileExists(user.uid))) {
+          try {
+            await profileService.createProfile({
+              id: user.uid,
+              email: user.email,
+              display_name: user.displayName || user.email?.split('@')[0] || 'User'
+            });
+          } catch (error) {
+            console.error('Error creating profile:', error);
+          }
         }
 
-        // Update presence
-        await updateUserStatus(user.uid, true);
+        // Presence follows the socket connection
+        socketService.connect(user.uid, () => user.getIdToken());
+        presenceService.start(user.uid);
+        outboxService.start(user.uid);
+        deliveryService.start(user.uid);
+        notificationService.start(user.uid);
+      } else {
+        presenceService.stop();
+        socketService.disconnect();
+        outboxService.stop();
+        deliveryService.stop();
+        notificationService.stop();
       }
       setLoading(false);
     });
@@ -92,23 +77,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     const userCredential = await createUserWithEmailAndPassword(auth, email, password);
     
     // Insert profile in Supabase
-    await supabase.from('profiles').insert({
+    await profileService.createProfile({
       id: userCredential.user.uid,
       email: email,
-      display_name: displayName,
-      online_status: true,
-      created_at: new Date().toISOString()
+      display_name: displayName
     });
 
     // Set Firebase Realtime Database user data
     const userRef = ref(database, `users/${userCredential.user.uid}`);
     await set(userRef, {
       email,
-      displayName,
-      status: {
-        online: true,
-        lastSeen: serverTimestamp()
-      }
+      displayName
     });
   };
 
@@ -117,9 +96,6 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const signOut = async () => {
-    if (user) {
-      await updateUserStatus(user.uid, false);
-    }
     await firebaseSignOut(auth);
   };
 
@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useState } from 'react';
+import { moderationService } from '../services/moderation';
+import { useAuth } from '../contexts/AuthContext';
+
+// The profiles the current user has blocked, with actions to change that
+export const useBlockedUsers = () => {
+  const [blockedIds, setBlockedIds] = useState<Set<string>>(new Set());
+  const { user } = useAuth();
+
+  const load = useCallback(async () => {
+    try {
+      setBlockedIds(new Set(await moderationService.listBlockedIds()));
+    } catch (error) {
+      console.error('Error loading blocked users:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    load();
+    return moderationService.subscribeToBlocks(load);
+  }, [user, load]);
+
+  const block = async (blockedId: string, displayName: string) => {
+    if (!user) return;
+    if (!confirm(`Block ${displayName}? You won't see their messages and neither of you can message the other.`)) {
+      return;
+    }
+
+    try {
+      await moderationService.block(user.uid, blockedId);
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      alert('Failed to block user');
+    }
+  };
+
+  const unblock = async (blockedId: string) => {
+    if (!user) return;
+
+    try {
+      await moderationService.unblock(user.uid, blockedId);
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      alert('Failed to unblock user');
+    }
+  };
+
+  return { blockedIds, block, unblock };
+};
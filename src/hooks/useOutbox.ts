@@ -0,0 +1,39 @@
+import { useEffect, useRef, useState } from 'react';
+import { outboxService, OutboxDraft, OutboxEntry } from '../services/outbox';
+import type { DirectMessage, GroupMessage } from '../types/chat';
+
+// Unsent messages for one conversation, oldest first. `onSent` receives the
+// server row of each message from this conversation once its insert succeeds.
+export const useOutbox = (
+  kind: OutboxEntry['kind'],
+  conversationId: string | null,
+  onSent?: (entry: OutboxEntry, message: DirectMessage | GroupMessage) => void
+) => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const onSentRef = useRef(onSent);
+  onSentRef.current = onSent;
+
+  useEffect(() => {
+    return outboxService.subscribe((all) => {
+      setEntries(all.filter((entry) => entry.kind === kind && entry.conversationId === conversationId));
+    });
+  }, [kind, conversationId]);
+
+  useEffect(() => {
+    return outboxService.onSent((entry, message) => {
+      if (entry.kind === kind && entry.conversationId === conversationId) {
+        onSentRef.current?.(entry, message);
+      }
+    });
+  }, [kind, conversationId]);
+
+  return {
+    pending: entries,
+    enqueue: (draft: Omit<OutboxDraft, 'kind' | 'conversationId'>) => {
+      if (!conversationId) return;
+      outboxService.enqueue({ ...draft, kind, conversationId });
+    },
+    retry: (id: string) => outboxService.retry(id),
+    discard: (id: string) => outboxService.discard(id)
+  };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { presenceService, Presence } from '../services/presence';
+
+// Keeps "last seen 5 min ago" current while nothing else changes
+const RELATIVE_TIME_REFRESH_MS = 60 * 1000;
+
+export const formatLastSeen = (presence: Presence) => {
+  if (presence.status === 'online') return 'Online';
+  if (presence.status === 'away') return 'Away';
+  if (!presence.lastSeen) return 'Offline';
+
+  const minutes = Math.floor((Date.now() - new Date(presence.lastSeen).getTime()) / 60000);
+  if (minutes < 1) return 'Last seen just now';
+  if (minutes < 60) return `Last seen ${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `Last seen ${hours} h ago`;
+
+  const lastSeen = new Date(presence.lastSeen);
+  if (hours < 48) {
+    return `Last seen yesterday at ${lastSeen.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+  }
+  return `Last seen ${lastSeen.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+};
+
+const createLookup = () => (userId: string) => presenceService.get(userId);
+
+// Returns a lookup of anyone's presence. A new lookup is returned, and the
+// component re-renders, whenever any presence changes.
+export const usePresence = () => {
+  const [lookup, setLookup] = useState(createLookup);
+
+  useEffect(() => {
+    const refresh = () => setLookup(createLookup);
+    const unsubscribe = presenceService.subscribe(refresh);
+    const interval = setInterval(refresh, RELATIVE_TIME_REFRESH_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, []);
+
+  return lookup;
+};
@@ -0,0 +1,38 @@
+import { useCallback, useLayoutEffect, useRef } from 'react';
+
+// Keeps a message list pinned to the bottom when messages are appended and
+// keeps the viewport steady when an older page is prepended. `followBottom`
+// is off while a detached window of history (e.g. a search hit) is shown.
+export const useScrollAnchor = <T extends { id: string }>(messages: T[], followBottom = true) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const prependAnchorRef = useRef<{ scrollHeight: number; scrollTop: number } | null>(null);
+  const lastIdRef = useRef<string>();
+
+  // Call right before prepending an older page
+  const preserveScroll = useCallback(() => {
+    const container = containerRef.current;
+    if (container) {
+      prependAnchorRef.current = { scrollHeight: container.scrollHeight, scrollTop: container.scrollTop };
+    }
+  }, []);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = prependAnchorRef.current;
+    if (container && anchor) {
+      container.scrollTop = container.scrollHeight - anchor.scrollHeight + anchor.scrollTop;
+      prependAnchorRef.current = null;
+    }
+
+    const lastId = messages[messages.length - 1]?.id;
+    if (lastId !== lastIdRef.current && followBottom) {
+      // Smooth for a newly appended message, instant when a conversation loads
+      const appended = messages.some((m) => m.id === lastIdRef.current);
+      lastIdRef.current = lastId;
+      endRef.current?.scrollIntoView({ behavior: appended ? 'smooth' : 'auto' });
+    }
+  }, [messages, followBottom]);
+
+  return { containerRef, endRef, preserveScroll };
+};
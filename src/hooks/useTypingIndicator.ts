@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { socketService } from '../services/socket';
+import type { ConversationRef, TypingEvent } from '../types/socket';
+
+// How often "still typing" is re-sent while the user keeps typing
+const TYPING_THROTTLE_MS = 2000;
+// Local idle time after which we announce "stopped typing"
+const TYPING_IDLE_MS = 3000;
+// Remote typists are dropped if no refresh arrives within this window
+const TYPING_EXPIRY_MS = 5000;
+
+interface Typist {
+  displayName: string;
+  expiresAt: number;
+}
+
+export const formatTypingText = (names: string[]) => {
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names[0]}, ${names[1]} and ${names.length - 2} others are typing…`;
+};
+
+export const useTypingIndicator = (type: ConversationRef['type'], id: string | null) => {
+  const [typists, setTypists] = useState<Map<string, Typist>>(new Map());
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const send = useCallback((isTyping: boolean) => {
+    if (!id) return;
+    socketService.emit('typing', { conversation: { type, id }, isTyping });
+  }, [type, id]);
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(idleTimerRef.current);
+    if (lastSentRef.current) {
+      lastSentRef.current = 0;
+      send(false);
+    }
+  }, [send]);
+
+  // Call on every composer change
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current > TYPING_THROTTLE_MS) {
+      lastSentRef.current = now;
+      send(true);
+    }
+    clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [send, stopTyping]);
+
+  useEffect(() => {
+    setTypists(new Map());
+    if (!id) return;
+
+    // Groups joined after the socket connected aren't in its room list yet
+    if (type === 'group') {
+      socketService.emit('group:join', id);
+    }
+
+    const handleTyping = (event: TypingEvent) => {
+      if (event.conversation.type !== type || event.conversation.id !== id) return;
+
+      setTypists((prev) => {
+        const next = new Map(prev);
+        if (event.isTyping) {
+          next.set(event.userId, {
+            displayName: event.displayName,
+            expiresAt: Date.now() + TYPING_EXPIRY_MS
+          });
+        } else {
+          next.delete(event.userId);
+        }
+        return next;
+      });
+    };
+
+    const sweep = setInterval(() => {
+      setTypists((prev) => {
+        const now = Date.now();
+        const next = new Map([...prev].filter(([, t]) => t.expiresAt > now));
+        return next.size === prev.size ? prev : next;
+      });
+    }, 1000);
+
+    socketService.on('typing', handleTyping);
+
+    return () => {
+      socketService.off('typing', handleTyping);
+      clearInterval(sweep);
+      stopTyping();
+    };
+  }, [type, id, stopTyping]);
+
+  const typingNames = [...typists.values()].map((t) => t.displayName);
+
+  return { typingNames, notifyTyping, stopTyping };
+};
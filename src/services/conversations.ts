@@ -0,0 +1,264 @@
+import { supabase } from '../config/supabase';
+import type {
+  ConversationSettings,
+  DirectConversation,
+  DirectMessage,
+  Group,
+  GroupConversation,
+  GroupEvent,
+  GroupMessage
+} from '../types/chat';
+import type { ConversationRef } from '../types/socket';
+
+// Flat row returned by get_direct_conversations
+interface DirectConversationRow extends ConversationSettings {
+  id: string;
+  email: string;
+  display_name: string;
+  avatar_url?: string;
+  bio?: string;
+  online_status: boolean;
+  last_seen?: string;
+  unread_count: number;
+  last_message_content: string | null;
+  last_message_type: string | null;
+  last_message_sender_id: string | null;
+  last_message_created_at: string | null;
+}
+
+export interface DirectConversationHandlers {
+  onInsert: (message: DirectMessage) => void;
+  onUpdate: (message: DirectMessage) => void;
+  // Pin, mute or archive changed, possibly from another tab
+  onSettingsChange: (partnerId: string) => void;
+}
+
+// Flat row returned by get_group_conversations
+interface GroupConversationRow extends Group, ConversationSettings {
+  membership_id: string;
+  member_count: number;
+  unread_count: number;
+  unread_mentions: number;
+  last_message_content: string | null;
+  last_message_type: string | null;
+  last_message_sender_id: string | null;
+  last_message_sender_name: string | null;
+  last_message_created_at: string | null;
+}
+
+export interface GroupConversationHandlers {
+  // Something in the group changed that the payload alone can't update
+  onGroupChange: (groupId: string) => void;
+  onGroupUpdate: (group: Group) => void;
+  onMessage: (message: GroupMessage) => void;
+  // One of the user's memberships ended: they left, were removed or the group was deleted
+  onMembershipRemoved: (membershipId: string) => void;
+}
+
+let groupListSubscriptions = 0;
+
+// Stored as a date far enough out that it never passes
+export const MUTED_FOREVER = '9999-12-31T23:59:59.000Z';
+
+export const isMuted = (settings: ConversationSettings) =>
+  !!settings.muted_until && new Date(settings.muted_until).getTime() > Date.now();
+
+// Archived conversations come back once something newer than the archiving arrives
+export const isArchived = ({ settings, lastMessage }: { settings: ConversationSettings; lastMessage?: { created_at: string } }) =>
+  !!settings.archived_at &&
+  (!lastMessage || new Date(lastMessage.created_at).getTime() <= new Date(settings.archived_at).getTime());
+
+const toSettings = ({ pinned_at, muted_until, archived_at }: ConversationSettings): ConversationSettings => ({
+  pinned_at,
+  muted_until,
+  archived_at
+});
+
+const toDirectConversation = ({
+  unread_count,
+  last_message_content,
+  last_message_type,
+  last_message_sender_id,
+  last_message_created_at,
+  pinned_at,
+  muted_until,
+  archived_at,
+  ...profile
+}: DirectConversationRow): DirectConversation => ({
+  ...profile,
+  settings: { pinned_at, muted_until, archived_at },
+  unreadCount: Number(unread_count),
+  lastMessage: last_message_created_at
+    ? {
+        content: last_message_content || '',
+        message_type: last_message_type || 'text',
+        sender_id: last_message_sender_id!,
+        created_at: last_message_created_at
+      }
+    : undefined
+});
+
+const toGroupConversation = ({
+  membership_id,
+  member_count,
+  unread_count,
+  unread_mentions,
+  last_message_content,
+  last_message_type,
+  last_message_sender_id,
+  last_message_sender_name,
+  last_message_created_at,
+  pinned_at,
+  muted_until,
+  archived_at,
+  ...group
+}: GroupConversationRow): GroupConversation => ({
+  ...group,
+  settings: { pinned_at, muted_until, archived_at },
+  membershipId: membership_id,
+  member_count: Number(member_count),
+  unreadCount: Number(unread_count),
+  unreadMentions: Number(unread_mentions),
+  lastMessage: last_message_created_at
+    ? {
+        content: last_message_content || '',
+        message_type: last_message_type || 'text',
+        sender_id: last_message_sender_id!,
+        sender_name: last_message_sender_name || undefined,
+        created_at: last_message_created_at
+      }
+    : undefined
+});
+
+export const conversationService = {
+  // Every other user with the unread count and latest message of the DM with them
+  async listDirectConversations() {
+    const { data, error } = await supabase.rpc('get_direct_conversations');
+
+    if (error) throw error;
+    return ((data || []) as DirectConversationRow[]).map(toDirectConversation);
+  },
+
+  // Re-reads a single sidebar row, e.g. after messages in it were read or edited
+  async getDirectConversation(partnerId: string) {
+    const { data, error } = await supabase.rpc('get_direct_conversations', { p_partner_id: partnerId });
+
+    if (error) throw error;
+    const [row] = (data || []) as DirectConversationRow[];
+    return row ? toDirectConversation(row) : null;
+  },
+
+  // The user's groups with member count, unread count and latest message
+  async listGroupConversations() {
+    const { data, error } = await supabase.rpc('get_group_conversations');
+
+    if (error) throw error;
+    return ((data || []) as GroupConversationRow[]).map(toGroupConversation);
+  },
+
+  // Re-reads a single sidebar row; null once the user is no longer a member
+  async getGroupConversation(groupId: string) {
+    const { data, error } = await supabase.rpc('get_group_conversations', { p_group_id: groupId });
+
+    if (error) throw error;
+    const [row] = (data || []) as GroupConversationRow[];
+    return row ? toGroupConversation(row) : null;
+  },
+
+  // Saves only the given fields; the others keep their stored values
+  async updateSettings(userId: string, conversation: ConversationRef, fields: Partial<ConversationSettings>) {
+    const { data, error } = await supabase
+      .from('conversation_settings')
+      .upsert(
+        {
+          user_id: userId,
+          conversation_type: conversation.type,
+          conversation_id: conversation.id,
+          ...fields,
+          updated_at: new Date().toISOString()
+        },
+        { onConflict: 'user_id,conversation_type,conversation_id' }
+      )
+      .select('pinned_at, muted_until, archived_at')
+      .single();
+
+    if (error) throw error;
+    return toSettings(data as ConversationSettings);
+  },
+
+  // DMs sent or received by `userId`; returns an unsubscribe function
+  subscribeToDirectConversations(userId: string, handlers: DirectConversationHandlers) {
+    const involvesUser = (message: DirectMessage) => message.receiver_id === userId || message.sender_id === userId;
+
+    const channel = supabase
+      .channel('messages_realtime')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, (payload) => {
+        const message = payload.new as DirectMessage;
+        if (involvesUser(message)) handlers.onInsert(message);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'messages' }, (payload) => {
+        const message = payload.new as DirectMessage;
+        if (involvesUser(message)) handlers.onUpdate(message);
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'conversation_settings', filter: `user_id=eq.${userId}` }, (payload) => {
+        const settings = payload.new as { conversation_type: ConversationRef['type']; conversation_id: string };
+        if (settings.conversation_type === 'dm') handlers.onSettingsChange(settings.conversation_id);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  // Changes to `groupIds` (the user's groups) and to the user's own memberships;
+  // returns an unsubscribe function. Subscribe again when the set of groups changes.
+  subscribeToGroupConversations(userId: string, groupIds: string[], handlers: GroupConversationHandlers) {
+    const ids = groupIds.join(',');
+    const inGroups = `group_id=in.(${ids})`;
+    const membershipChanged = (payload: { new: Record<string, unknown> }) =>
+      handlers.onGroupChange(payload.new.group_id as string);
+
+    // Topics are reused by the client, so each subscription gets its own
+    let channel = supabase
+      .channel(`group_list_realtime_${++groupListSubscriptions}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_members', filter: `user_id=eq.${userId}` }, membershipChanged)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'group_members', filter: `user_id=eq.${userId}` }, membershipChanged)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'conversation_settings', filter: `user_id=eq.${userId}` }, (payload) => {
+        const settings = payload.new as { conversation_type: ConversationRef['type']; conversation_id: string };
+        if (settings.conversation_type === 'group') handlers.onGroupChange(settings.conversation_id);
+      })
+      // DELETE payloads only carry the primary key, so they can't be filtered;
+      // the handler ignores rows that aren't one of the user's memberships
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'group_members' }, (payload) => {
+        handlers.onMembershipRemoved((payload.old as { id: string }).id);
+      });
+
+    if (groupIds.length > 0) {
+      channel = channel
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_members', filter: inGroups }, membershipChanged)
+        // Other members leaving show up as group events, which can be filtered
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_events', filter: inGroups }, (payload) => {
+          const event = payload.new as GroupEvent;
+          if (event.event_type === 'member_removed' || event.event_type === 'member_left') {
+            handlers.onGroupChange(event.group_id);
+          }
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'groups', filter: `id=in.(${ids})` }, (payload) => {
+          handlers.onGroupUpdate(payload.new as Group);
+        })
+        .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_messages', filter: inGroups }, (payload) => {
+          handlers.onMessage(payload.new as GroupMessage);
+        })
+        .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'group_messages', filter: inGroups }, (payload) => {
+          handlers.onGroupChange((payload.new as GroupMessage).group_id);
+        });
+    }
+
+    channel.subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
@@ -0,0 +1,78 @@
+import { ref as storageRef, uploadBytesResumable, getDownloadURL } from 'firebase/storage';
+import { storage } from '../config/firebase';
+import { supabase } from '../config/supabase';
+import type { MessageFile, MessageKind, SharedFile, SharedLink } from '../types/chat';
+
+export type FileCategory = 'image' | 'document' | 'other';
+export type FileSort = 'date' | 'size';
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  previewUrl?: string;
+}
+
+export const createPendingAttachment = (file: File): PendingAttachment => ({
+  id: `${Date.now()}_${Math.random().toString(36).slice(2)}`,
+  file,
+  previewUrl: file.type.startsWith('image/') ? URL.createObjectURL(file) : undefined
+});
+
+// Older file messages stored the file name as their content; only real captions are shown
+export const getCaption = (content: string, files: MessageFile[] = []) =>
+  files.some((f) => f.file_name === content) ? '' : content;
+
+export const fileService = {
+  // Uploads to Firebase Storage under `folder` and resolves with the download URL
+  upload(folder: string, file: Blob, name: string, onProgress?: (percent: number) => void) {
+    return new Promise<string>((resolve, reject) => {
+      const fileRef = storageRef(storage, `${folder}/${Date.now()}_${name}`);
+      const uploadTask = uploadBytesResumable(fileRef, file, { contentType: file.type });
+
+      uploadTask.on(
+        'state_changed',
+        (snapshot) => {
+          onProgress?.((snapshot.bytesTransferred / snapshot.totalBytes) * 100);
+        },
+        (error) => reject(error),
+        async () => {
+          const downloadURL = await getDownloadURL(uploadTask.snapshot.ref);
+          resolve(downloadURL);
+        }
+      );
+    });
+  },
+
+  async listConversationFiles(
+    kind: MessageKind,
+    conversationId: string,
+    category: FileCategory,
+    sort: FileSort,
+    limit: number,
+    offset: number
+  ) {
+    const { data, error } = await supabase.rpc('get_conversation_files', {
+      p_kind: kind,
+      p_conversation_id: conversationId,
+      p_category: category,
+      p_sort: sort,
+      p_limit: limit,
+      p_offset: offset
+    });
+
+    if (error) throw error;
+    return (data || []) as SharedFile[];
+  },
+
+  async listConversationLinks(kind: MessageKind, conversationId: string, limit: number, offset: number) {
+    const { data, error } = await supabase.rpc('get_conversation_links', {
+      p_kind: kind,
+      p_conversation_id: conversationId,
+      p_limit: limit,
+      p_offset: offset
+    });
+
+    if (error) throw error;
+    return (data || []) as SharedLink[];
+  }
+};
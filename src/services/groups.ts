@@ -0,0 +1,241 @@
+import { supabase } from '../config/supabase';
+import type {
+  Group,
+  GroupEvent,
+  GroupEventType,
+  GroupMember,
+  GroupPermission,
+  GroupRole,
+  Profile,
+  ReadMarker
+} from '../types/chat';
+
+export const EVENTS_PAGE_SIZE = 50;
+
+// Mirrors `can_manage_member()`: whether someone with `permissions` may
+// remove a member with `role` or change their role
+export const canManageMember = (permissions: GroupPermission[], role: GroupRole) =>
+  role === 'member'
+    ? permissions.includes('remove_members')
+    : role === 'admin' && permissions.includes('manage_admins');
+
+// "Priya added Sam", with "You"/"you" in place of the current user's name
+export const describeGroupEvent = (event: GroupEvent, currentUserId?: string) => {
+  const { details } = event;
+  const actor = event.actor_id && event.actor_id === currentUserId ? 'You' : details.actor_name || 'Someone';
+  const target = event.target_user_id && event.target_user_id === currentUserId ? 'you' : details.target_name || 'someone';
+
+  switch (event.event_type) {
+    case 'created':
+      return `${actor} created the group "${details.name}"`;
+    case 'renamed':
+      return `${actor} renamed the group to "${details.name}"`;
+    case 'description_changed':
+      return `${actor} changed the group description`;
+    case 'avatar_changed':
+      return `${actor} changed the group photo`;
+    case 'posting_changed':
+      return details.only_admins_can_post
+        ? `${actor} allowed only admins to send messages`
+        : `${actor} allowed all members to send messages`;
+    case 'member_added':
+      return `${actor} added ${target}`;
+    case 'member_joined':
+      return `${actor} joined using an invite link`;
+    case 'member_removed':
+      return `${actor} removed ${target}`;
+    case 'member_left':
+      return `${actor} left`;
+    case 'role_changed':
+      if (details.role === 'owner') return `${actor} made ${target} the owner`;
+      if (details.old_role === 'owner') return `${actor} handed over ownership`;
+      return details.role === 'admin' ? `${actor} made ${target} an admin` : `${actor} removed ${target} as admin`;
+  }
+};
+
+export const groupService = {
+  async getGroup(groupId: string) {
+    const { data, error } = await supabase.from('groups').select('*').eq('id', groupId).single();
+
+    if (error) throw error;
+    return data as Group;
+  },
+
+  // Creates the group with the caller as owner and `memberIds` as members
+  async createGroup(name: string, description: string, memberIds: string[]) {
+    const { data, error } = await supabase.rpc('create_group', {
+      p_name: name,
+      p_description: description,
+      p_member_ids: memberIds
+    });
+
+    if (error) throw error;
+    return data as Group;
+  },
+
+  async updateGroup(
+    groupId: string,
+    fields: { name?: string; description?: string; avatar_url?: string; only_admins_can_post?: boolean }
+  ) {
+    const { error } = await supabase.from('groups').update(fields).eq('id', groupId);
+
+    if (error) throw error;
+  },
+
+  // Memberships joined with each member's profile
+  async listMembers(groupId: string) {
+    const { data, error } = await supabase
+      .from('group_members')
+      .select('id, user_id, role')
+      .eq('group_id', groupId);
+
+    if (error) throw error;
+
+    const { data: profiles, error: profilesError } = await supabase
+      .from('profiles')
+      .select('id, display_name, email, avatar_url, online_status')
+      .in('id', (data || []).map((m) => m.user_id));
+
+    if (profilesError) throw profilesError;
+
+    const byId = new Map(((profiles || []) as Profile[]).map((p) => [p.id, p]));
+    return (data || []).map((member): GroupMember => {
+      const profile = byId.get(member.user_id);
+      return {
+        ...member,
+        display_name: profile?.display_name || 'Unknown',
+        email: profile?.email || '',
+        avatar_url: profile?.avatar_url,
+        online_status: profile?.online_status || false
+      };
+    });
+  },
+
+  // The caller's permissions in the group; empty once they are no longer a member
+  async getPermissions(groupId: string) {
+    const { data, error } = await supabase.rpc('group_permissions', { p_group_id: groupId });
+
+    if (error) throw error;
+    return (data || []) as GroupPermission[];
+  },
+
+  async addMembers(groupId: string, userIds: string[]) {
+    const { error } = await supabase
+      .from('group_members')
+      .insert(userIds.map((userId) => ({ group_id: groupId, user_id: userId, role: 'member' })));
+
+    if (error) throw error;
+  },
+
+  async removeMember(membershipId: string) {
+    const { error } = await supabase.from('group_members').delete().eq('id', membershipId);
+
+    if (error) throw error;
+  },
+
+  async setMemberRole(membershipId: string, role: Exclude<GroupRole, 'owner'>) {
+    const { error } = await supabase.from('group_members').update({ role }).eq('id', membershipId);
+
+    if (error) throw error;
+  },
+
+  // The previous owner stays on as an admin
+  async transferOwnership(groupId: string, newOwnerId: string) {
+    const { error } = await supabase.rpc('transfer_group_ownership', {
+      p_group_id: groupId,
+      p_new_owner_id: newOwnerId
+    });
+
+    if (error) throw error;
+  },
+
+  // The owner has to name a successor, who takes over before they leave
+  async leaveGroup(groupId: string, successorId?: string) {
+    const { error } = await supabase.rpc('leave_group', {
+      p_group_id: groupId,
+      p_successor_id: successorId ?? null
+    });
+
+    if (error) throw error;
+  },
+
+  // Deletes the group with everything in it. Its stored files are removed
+  // afterwards by the socket server.
+  async deleteGroup(groupId: string) {
+    const { error } = await supabase.rpc('delete_group', { p_group_id: groupId });
+
+    if (error) throw error;
+  },
+
+  // Newest first; `userId` matches events the user made or was the target of
+  async listEvents(
+    groupId: string,
+    { types, userId, before }: { types?: GroupEventType[]; userId?: string; before?: string } = {}
+  ) {
+    let query = supabase
+      .from('group_events')
+      .select('*')
+      .eq('group_id', groupId)
+      .order('created_at', { ascending: false })
+      .limit(EVENTS_PAGE_SIZE);
+
+    if (types?.length) query = query.in('event_type', types);
+    if (userId) query = query.or(`actor_id.eq.${userId},target_user_id.eq.${userId}`);
+    if (before) query = query.lt('created_at', before);
+
+    const { data, error } = await query;
+
+    if (error) throw error;
+    return (data || []) as GroupEvent[];
+  },
+
+  // Returns an unsubscribe function
+  subscribeToEvents(groupId: string, onEvent: (event: GroupEvent) => void) {
+    const channel = supabase
+      .channel(`group_events_${groupId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'group_events', filter: `group_id=eq.${groupId}` },
+        (payload) => onEvent(payload.new as GroupEvent)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  async listReadMarkers(groupId: string) {
+    const { data, error } = await supabase
+      .from('group_members')
+      .select('user_id, last_read_at')
+      .eq('group_id', groupId);
+
+    if (error) throw error;
+    return (data || []) as ReadMarker[];
+  },
+
+  // Fires when a member joins or reads further; returns an unsubscribe function
+  subscribeToReadMarkers(groupId: string, onChange: (marker: ReadMarker) => void) {
+    const filter = `group_id=eq.${groupId}`;
+    const channel = supabase
+      .channel(`group_read_markers_${groupId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_members', filter }, (payload) => {
+        onChange(payload.new as ReadMarker);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'group_members', filter }, (payload) => {
+        onChange(payload.new as ReadMarker);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+
+  async markGroupRead(groupId: string) {
+    const { error } = await supabase.rpc('mark_group_read', { p_group_id: groupId });
+
+    if (error) throw error;
+  }
+};
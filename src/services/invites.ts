@@ -0,0 +1,79 @@
+import { supabase } from '../config/supabase';
+import type { GroupInvite, InvitePreview } from '../types/chat';
+
+// Invite links are the app URL with the token in this query parameter
+const INVITE_PARAM = 'invite';
+
+export const inviteService = {
+  buildUrl(token: string) {
+    const url = new URL(window.location.origin + window.location.pathname);
+    url.searchParams.set(INVITE_PARAM, token);
+    return url.toString();
+  },
+
+  // The token of the invite link the app was opened from, if any
+  readTokenFromUrl() {
+    return new URL(window.location.href).searchParams.get(INVITE_PARAM);
+  },
+
+  // Drops the token from the address bar so a reload doesn't reopen the invite
+  clearTokenFromUrl() {
+    const url = new URL(window.location.href);
+    if (!url.searchParams.has(INVITE_PARAM)) return;
+
+    url.searchParams.delete(INVITE_PARAM);
+    window.history.replaceState(window.history.state, '', url.toString());
+  },
+
+  // Links that haven't been revoked, newest first; expired and used up ones included
+  async listInvites(groupId: string) {
+    const { data, error } = await supabase
+      .from('group_invites')
+      .select('*')
+      .eq('group_id', groupId)
+      .is('revoked_at', null)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as GroupInvite[];
+  },
+
+  async createInvite(groupId: string, userId: string, options: { expiresAt: string | null; maxUses: number | null }) {
+    const { data, error } = await supabase
+      .from('group_invites')
+      .insert({
+        group_id: groupId,
+        created_by: userId,
+        expires_at: options.expiresAt,
+        max_uses: options.maxUses
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as GroupInvite;
+  },
+
+  async revokeInvite(inviteId: string) {
+    const { error } = await supabase.rpc('revoke_group_invite', { p_invite_id: inviteId });
+
+    if (error) throw error;
+  },
+
+  // null for an unknown token
+  async getPreview(token: string) {
+    const { data, error } = await supabase.rpc('get_group_invite', { p_token: token });
+
+    if (error) throw error;
+    const [row] = (data || []) as InvitePreview[];
+    return row ? { ...row, member_count: Number(row.member_count) } : null;
+  },
+
+  // Returns the group id; joining a group you're already in is a no-op
+  async join(token: string) {
+    const { data, error } = await supabase.rpc('join_group_with_invite', { p_token: token });
+
+    if (error) throw error;
+    return data as string;
+  }
+};
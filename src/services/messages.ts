@@ -0,0 +1,327 @@
+import { supabase } from '../config/supabase';
+import { profileService } from './profiles';
+import type { MessageByKind, MessageKind, ProfileSummary, ReactionChange, SearchResult } from '../types/chat';
+
+export const MESSAGE_PAGE_SIZE = 50;
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// Keyset cursor on (created_at, id): everything strictly older than `message`.
+// Values are quoted because timestamps contain characters PostgREST treats as syntax.
+const olderThanFilter = (message: { created_at: string; id: string }) =>
+  `created_at.lt."${message.created_at}",and(created_at.eq."${message.created_at}",id.lt.${message.id})`;
+
+const newerThanFilter = (message: { created_at: string; id: string }) =>
+  `created_at.gt."${message.created_at}",and(created_at.eq."${message.created_at}",id.gt.${message.id})`;
+
+// Direct and group messages share one shape; only the tables and functions differ
+const TABLES = {
+  dm: {
+    messages: 'messages',
+    files: 'files',
+    reactions: 'message_reactions',
+    hidden: 'hidden_messages',
+    send: 'send_message',
+    edit: 'edit_message',
+    remove: 'delete_message'
+  },
+  group: {
+    messages: 'group_messages',
+    files: 'group_files',
+    reactions: 'group_message_reactions',
+    hidden: 'hidden_group_messages',
+    send: 'send_group_message',
+    edit: 'edit_group_message',
+    remove: 'delete_group_message'
+  }
+} as const;
+
+const MESSAGE_SELECT = {
+  dm: `
+    *,
+    files (
+      file_name,
+      file_type,
+      firebase_url
+    ),
+    reactions:message_reactions (
+      user_id,
+      emoji
+    ),
+    reply_to:reply_to_id (
+      id,
+      sender_id,
+      content,
+      message_type,
+      deleted_at
+    ),
+    hidden_messages ()
+  `,
+  group: `
+    *,
+    files:group_files (
+      file_name,
+      file_type,
+      firebase_url
+    ),
+    reactions:group_message_reactions (
+      user_id,
+      emoji
+    ),
+    reply_to:reply_to_id (
+      id,
+      sender_id,
+      content,
+      message_type,
+      deleted_at,
+      sender:sender_id (
+        display_name
+      )
+    ),
+    hidden_group_messages ()
+  `
+};
+
+// The "@que" being typed right before the cursor, if any
+export const getMentionQuery = (text: string, cursor: number) => {
+  const match = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, cursor));
+  if (!match) return null;
+  return { start: cursor - match[2].length - 1, query: match[2].toLowerCase() };
+};
+
+export const filterMentionSuggestions = (members: ProfileSummary[], query: string) =>
+  members.filter((member) => member.display_name.toLowerCase().includes(query)).slice(0, MAX_MENTION_SUGGESTIONS);
+
+// Picked members whose "@Name" is still in the text
+export const getMentionedIds = (text: string, picked: ProfileSummary[]) =>
+  [...new Set(picked.filter((member) => text.includes(`@${member.display_name}`)).map((member) => member.id))];
+
+export interface SendMessageParams {
+  content: string;
+  messageType: 'text' | 'file';
+  replyToId: string | null;
+  files: { file_name: string; file_type: string; file_size: number; firebase_url: string }[];
+  clientId: string;
+  // Group messages only
+  mentions?: string[];
+}
+
+export interface ConversationHandlers<K extends MessageKind> {
+  onInsert: (message: MessageByKind[K]) => void;
+  onUpdate: (message: MessageByKind[K]) => void;
+  onReactionAdded: (reaction: ReactionChange) => void;
+  onReactionRemoved: (reaction: ReactionChange) => void;
+  // The user deleted a message "for me", possibly in another tab
+  onHidden: (messageId: string) => void;
+}
+
+// For a DM `conversationId` is the other participant's id. Messages the user
+// hid are left out by requiring an empty embed of their hidden row.
+const conversationQuery = (kind: MessageKind, conversationId: string, userId: string) => {
+  const { messages, hidden } = TABLES[kind];
+  const query = supabase
+    .from(messages)
+    .select(MESSAGE_SELECT[kind])
+    .eq(`${hidden}.user_id`, userId)
+    .is(hidden, null);
+
+  return kind === 'dm'
+    ? query.or(
+        `and(sender_id.eq.${userId},receiver_id.eq.${conversationId}),and(sender_id.eq.${conversationId},receiver_id.eq.${userId})`
+      )
+    : query.eq('group_id', conversationId);
+};
+
+// Group messages carry their sender's name and avatar for the bubble header
+const withSenders = async <K extends MessageKind>(kind: K, rows: MessageByKind[K][]) => {
+  if (kind !== 'group') return rows;
+
+  const senders = await profileService.getSummaries(rows.map((row) => row.sender_id));
+  return rows.map((row) => {
+    const sender = senders.get(row.sender_id);
+    return { ...row, sender: sender ? { display_name: sender.display_name, avatar_url: sender.avatar_url } : undefined };
+  });
+};
+
+export const messageService = {
+  // One page of history in chronological order, strictly before or after `cursor`
+  async fetchPage<K extends MessageKind>(
+    kind: K,
+    conversationId: string,
+    userId: string,
+    direction: 'older' | 'newer',
+    cursor?: MessageByKind[K]
+  ) {
+    let query = conversationQuery(kind, conversationId, userId);
+
+    if (cursor) {
+      query = query.or(direction === 'older' ? olderThanFilter(cursor) : newerThanFilter(cursor));
+    }
+
+    const ascending = direction === 'newer';
+    const { data, error } = await query
+      .order('created_at', { ascending })
+      .order('id', { ascending })
+      .limit(MESSAGE_PAGE_SIZE);
+
+    if (error) throw error;
+
+    const page = (data || []) as unknown as MessageByKind[K][];
+    return {
+      messages: await withSenders(kind, ascending ? page : page.reverse()),
+      full: page.length === MESSAGE_PAGE_SIZE
+    };
+  },
+
+  async getMessage<K extends MessageKind>(kind: K, conversationId: string, userId: string, messageId: string) {
+    const { data, error } = await conversationQuery(kind, conversationId, userId).eq('id', messageId).maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    const [message] = await withSenders(kind, [data as unknown as MessageByKind[K]]);
+    return message;
+  },
+
+  async send<K extends MessageKind>(kind: K, conversationId: string, params: SendMessageParams) {
+    const { data, error } = await supabase.rpc(TABLES[kind].send, {
+      ...(kind === 'dm'
+        ? { p_receiver_id: conversationId }
+        : { p_group_id: conversationId, p_mentions: params.mentions ?? [] }),
+      p_content: params.content,
+      p_message_type: params.messageType,
+      p_reply_to_id: params.replyToId,
+      p_files: params.files,
+      p_client_id: params.clientId
+    });
+
+    if (error) throw error;
+    return data as MessageByKind[K];
+  },
+
+  async edit<K extends MessageKind>(kind: K, messageId: string, content: string) {
+    const { data, error } = await supabase.rpc(TABLES[kind].edit, {
+      p_message_id: messageId,
+      p_content: content
+    });
+
+    if (error) throw error;
+    return data as MessageByKind[K];
+  },
+
+  async remove<K extends MessageKind>(kind: K, messageId: string, forEveryone: boolean) {
+    const { data, error } = await supabase.rpc(TABLES[kind].remove, {
+      p_message_id: messageId,
+      p_for_everyone: forEveryone
+    });
+
+    if (error) throw error;
+    return data as MessageByKind[K];
+  },
+
+  // Group reactions also record the group so realtime can filter on it
+  async addReaction(kind: MessageKind, reaction: ReactionChange, groupId?: string) {
+    const { error } = await supabase
+      .from(TABLES[kind].reactions)
+      .insert(kind === 'group' ? { ...reaction, group_id: groupId } : reaction);
+
+    if (error) throw error;
+  },
+
+  async removeReaction(kind: MessageKind, reaction: ReactionChange) {
+    const { error } = await supabase
+      .from(TABLES[kind].reactions)
+      .delete()
+      .eq('message_id', reaction.message_id)
+      .eq('user_id', reaction.user_id)
+      .eq('emoji', reaction.emoji);
+
+    if (error) throw error;
+  },
+
+  // Receipts are stamped by the database so their times come from the server clock
+  async markDelivered(messageIds?: string[]) {
+    const { error } = await supabase.rpc('mark_messages_delivered', { p_message_ids: messageIds ?? null });
+
+    if (error) throw error;
+  },
+
+  async markDirectMessagesRead(partnerId: string) {
+    const { error } = await supabase.rpc('mark_messages_read', { p_sender_id: partnerId });
+
+    if (error) throw error;
+  },
+
+  async search(query: string, limit: number) {
+    const { data, error } = await supabase.rpc('search_messages', {
+      p_query: query,
+      p_limit: limit
+    });
+
+    if (error) throw error;
+    return (data || []) as SearchResult[];
+  },
+
+  // Realtime changes for one open conversation; returns an unsubscribe function.
+  // Inserted rows are completed with their files (and sender for groups) first.
+  subscribeToConversation<K extends MessageKind>(
+    kind: K,
+    conversationId: string,
+    userId: string,
+    handlers: ConversationHandlers<K>
+  ) {
+    const tables = TABLES[kind];
+    // DM tables can't be filtered to one conversation server-side
+    const filter = kind === 'group' ? `group_id=eq.${conversationId}` : undefined;
+
+    const inConversation = (row: MessageByKind[K]) => {
+      if (kind === 'group') return true;
+      const message = row as MessageByKind['dm'];
+      return (
+        (message.sender_id === conversationId && message.receiver_id === userId) ||
+        (message.sender_id === userId && message.receiver_id === conversationId)
+      );
+    };
+
+    const channel = supabase
+      .channel(`${tables.messages}_${conversationId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: tables.messages, filter }, async (payload) => {
+        const row = payload.new as MessageByKind[K];
+        if (!inConversation(row)) return;
+
+        if (row.message_type === 'file') {
+          const { data: fileData } = await supabase
+            .from(tables.files)
+            .select('file_name, file_type, firebase_url')
+            .eq('message_id', row.id);
+
+          row.files = fileData || [];
+        }
+        row.reactions = [];
+
+        const [message] = await withSenders(kind, [row]);
+        handlers.onInsert(message);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: tables.messages, filter }, (payload) => {
+        handlers.onUpdate(payload.new as MessageByKind[K]);
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: tables.reactions, filter }, (payload) => {
+        handlers.onReactionAdded(payload.new as ReactionChange);
+      })
+      // DELETE payloads only carry the primary key, so they can't be filtered by group
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: tables.reactions }, (payload) => {
+        handlers.onReactionRemoved(payload.old as ReactionChange);
+      })
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: tables.hidden, filter: `user_id=eq.${userId}` },
+        (payload) => {
+          handlers.onHidden((payload.new as { message_id: string }).message_id);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
@@ -0,0 +1,59 @@
+import { supabase } from '../config/supabase';
+import type { ReportReason, ReportedMessage } from '../types/chat';
+
+type BlocksListener = () => void;
+
+// Blocks are only changed from this client, so components are told directly
+// instead of over realtime (DELETE events can't be limited to the blocker)
+const blocksListeners = new Set<BlocksListener>();
+
+const notifyBlocksChanged = () => blocksListeners.forEach((listener) => listener());
+
+export const moderationService = {
+  // Ids of the profiles the current user has blocked
+  async listBlockedIds() {
+    const { data, error } = await supabase.from('blocked_users').select('blocked_id');
+
+    if (error) throw error;
+    return (data || []).map((row) => row.blocked_id as string);
+  },
+
+  async block(userId: string, blockedId: string) {
+    const { error } = await supabase.from('blocked_users').insert({ blocker_id: userId, blocked_id: blockedId });
+
+    if (error) throw error;
+    notifyBlocksChanged();
+  },
+
+  async unblock(userId: string, blockedId: string) {
+    const { error } = await supabase
+      .from('blocked_users')
+      .delete()
+      .eq('blocker_id', userId)
+      .eq('blocked_id', blockedId);
+
+    if (error) throw error;
+    notifyBlocksChanged();
+  },
+
+  // Fires after this client blocks or unblocks someone; returns an unsubscribe function
+  subscribeToBlocks(onChange: BlocksListener) {
+    blocksListeners.add(onChange);
+    return () => {
+      blocksListeners.delete(onChange);
+    };
+  },
+
+  // Files a user, or one of their messages, into the moderation queue
+  async report(reportedUserId: string, reason: ReportReason, details: string, message?: ReportedMessage) {
+    const { error } = await supabase.rpc('report_user', {
+      p_reported_user_id: reportedUserId,
+      p_reason: reason,
+      p_details: details,
+      p_message_kind: message?.kind ?? null,
+      p_message_id: message?.id ?? null
+    });
+
+    if (error) throw error;
+  }
+};
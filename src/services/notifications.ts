@@ -0,0 +1,261 @@
+import { supabase } from '../config/supabase';
+import { conversationService, isMuted } from './conversations';
+import { profileService } from './profiles';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { ConversationSettings, DirectMessage, GroupMessage } from '../types/chat';
+import type { ConversationRef } from '../types/socket';
+
+export interface OpenConversationRequest {
+  conversation: ConversationRef;
+  name: string;
+}
+
+type OpenListener = (request: OpenConversationRequest) => void;
+
+const PREVIEW_LENGTH = 80;
+
+const conversationKey = (conversation: ConversationRef) => `${conversation.type}:${conversation.id}`;
+
+const formatPreview = (message: DirectMessage | GroupMessage) => {
+  if (message.message_type === 'file' && !message.content) return '📎 File';
+  return message.content.length > PREVIEW_LENGTH
+    ? message.content.substring(0, PREVIEW_LENGTH) + '…'
+    : message.content;
+};
+
+// Favicon with the unread count drawn over a violet badge
+const renderBadgeIcon = (count: number) => {
+  const label = count > 99 ? '99+' : String(count);
+  const fontSize = label.length > 2 ? 14 : 20;
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="32" height="32" viewBox="0 0 32 32">' +
+    '<circle cx="16" cy="16" r="16" fill="#7c3aed"/>' +
+    `<text x="16" y="16" dy=".35em" text-anchor="middle" font-family="sans-serif" font-weight="bold" font-size="${fontSize}" fill="#fff">${label}</text>` +
+    '</svg>';
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+};
+
+// Desktop notifications for messages outside the conversation being looked
+// at, and the total unread count in the tab title and favicon.
+class NotificationService {
+  private userId: string | null = null;
+  private channel: RealtimeChannel | null = null;
+  private activeConversation: ConversationRef | null = null;
+  private openListeners = new Set<OpenListener>();
+  private groupNames = new Map<string, string>();
+  // Keyed by conversationKey; refreshed together with the unread count
+  private settings = new Map<string, ConversationSettings>();
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private baseTitle = document.title;
+  private baseIcon: string | null = null;
+
+  start(userId: string) {
+    this.stop();
+    this.userId = userId;
+    this.baseTitle = document.title;
+    this.baseIcon = this.getIconLink()?.href || null;
+
+    // Browsers only show the permission prompt reliably after a user gesture
+    if ('Notification' in window && Notification.permission === 'default') {
+      document.addEventListener('click', this.requestPermission, { once: true });
+    }
+
+    // Realtime only delivers rows the user is allowed to select, so the
+    // group message binding needs no filter
+    this.channel = supabase
+      .channel(`notifications_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+        (payload) => {
+          this.handleDirectMessage(payload.new as DirectMessage);
+          this.scheduleRefresh();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+        () => this.scheduleRefresh()
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'group_messages' }, (payload) => {
+        this.handleGroupMessage(payload.new as GroupMessage);
+        this.scheduleRefresh();
+      })
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'group_members', filter: `user_id=eq.${userId}` },
+        () => this.scheduleRefresh()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'conversation_settings', filter: `user_id=eq.${userId}` },
+        () => this.scheduleRefresh()
+      )
+      .subscribe();
+
+    this.refreshUnread();
+  }
+
+  stop() {
+    document.removeEventListener('click', this.requestPermission);
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    if (this.refreshTimer) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.userId) {
+      this.renderUnread(0);
+    }
+    this.userId = null;
+    this.groupNames.clear();
+    this.settings.clear();
+  }
+
+  // The conversation currently shown in the chat window, if any
+  setActiveConversation(conversation: ConversationRef | null) {
+    this.activeConversation = conversation;
+  }
+
+  // Fires when a notification is clicked; returns an unsubscribe function
+  onOpenConversation(listener: OpenListener) {
+    this.openListeners.add(listener);
+    return () => {
+      this.openListeners.delete(listener);
+    };
+  }
+
+  private requestPermission = () => {
+    Notification.requestPermission().catch((error) => {
+      console.error('Error requesting notification permission:', error);
+    });
+  };
+
+  private isSilenced(conversation: ConversationRef) {
+    const settings = this.settings.get(conversationKey(conversation));
+    return !!settings && isMuted(settings);
+  }
+
+  private isWatching(conversation: ConversationRef) {
+    return (
+      document.hasFocus() &&
+      this.activeConversation?.type === conversation.type &&
+      this.activeConversation.id === conversation.id
+    );
+  }
+
+  private async handleDirectMessage(message: DirectMessage) {
+    const conversation: ConversationRef = { type: 'dm', id: message.sender_id };
+    if (this.isSilenced(conversation) || this.isWatching(conversation)) return;
+
+    const sender = await profileService.getSummary(message.sender_id);
+    const name = sender?.display_name || 'New message';
+    this.show({ conversation, name }, name, formatPreview(message), sender?.avatar_url);
+  }
+
+  // Mentions get through even when the group is muted
+  private async handleGroupMessage(message: GroupMessage) {
+    const conversation: ConversationRef = { type: 'group', id: message.group_id };
+    const mentioned = !!this.userId && !!message.mentions?.includes(this.userId);
+    if (message.sender_id === this.userId || this.isWatching(conversation)) return;
+    if (!mentioned && this.isSilenced(conversation)) return;
+
+    const [sender, groupName] = await Promise.all([
+      profileService.getSummary(message.sender_id),
+      this.getGroupName(message.group_id)
+    ]);
+    const title = sender ? `${sender.display_name} in ${groupName}` : groupName;
+    this.show({ conversation, name: groupName }, title, formatPreview(message), sender?.avatar_url);
+  }
+
+  private async getGroupName(groupId: string) {
+    if (!this.groupNames.has(groupId)) {
+      try {
+        const group = await conversationService.getGroupConversation(groupId);
+        if (group) this.groupNames.set(groupId, group.name);
+      } catch (error) {
+        console.error('Error loading group for notification:', error);
+      }
+    }
+    return this.groupNames.get(groupId) || 'Group';
+  }
+
+  private show(request: OpenConversationRequest, title: string, body: string, icon?: string) {
+    if (!this.userId || !('Notification' in window) || Notification.permission !== 'granted') return;
+
+    // One notification per conversation; a newer message replaces the older
+    const notification = new Notification(title, {
+      body,
+      icon,
+      tag: conversationKey(request.conversation)
+    });
+    notification.onclick = () => {
+      window.focus();
+      notification.close();
+      this.openListeners.forEach((listener) => listener(request));
+    };
+  }
+
+  // Reading a conversation updates many rows at once, hence the debounce
+  private scheduleRefresh() {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = setTimeout(() => {
+      this.refreshTimer = null;
+      this.refreshUnread();
+    }, 500);
+  }
+
+  private async refreshUnread() {
+    const userId = this.userId;
+
+    try {
+      const [direct, groups] = await Promise.all([
+        conversationService.listDirectConversations(),
+        conversationService.listGroupConversations()
+      ]);
+      if (this.userId !== userId) return;
+
+      this.settings.clear();
+      direct.forEach((conversation) => this.settings.set(conversationKey({ type: 'dm', id: conversation.id }), conversation.settings));
+      groups.forEach((group) => {
+        this.groupNames.set(group.id, group.name);
+        this.settings.set(conversationKey({ type: 'group', id: group.id }), group.settings);
+      });
+
+      // Muted conversations keep their own count but stay out of the total,
+      // apart from messages that mention the user
+      const total =
+        direct
+          .filter((conversation) => !isMuted(conversation.settings))
+          .reduce((sum, conversation) => sum + conversation.unreadCount, 0) +
+        groups.reduce(
+          (sum, group) => sum + (isMuted(group.settings) ? group.unreadMentions : group.unreadCount),
+          0
+        );
+      this.renderUnread(total);
+    } catch (error) {
+      console.error('Error loading unread count:', error);
+    }
+  }
+
+  private renderUnread(count: number) {
+    document.title = count > 0 ? `(${count > 99 ? '99+' : count}) ${this.baseTitle}` : this.baseTitle;
+
+    const link = this.getIconLink();
+    if (!link) return;
+    if (count > 0) {
+      link.type = 'image/svg+xml';
+      link.href = renderBadgeIcon(count);
+    } else if (this.baseIcon) {
+      link.href = this.baseIcon;
+    }
+  }
+
+  private getIconLink() {
+    return document.querySelector<HTMLLinkElement>('link[rel="icon"]');
+  }
+}
+
+export const notificationService = new NotificationService();
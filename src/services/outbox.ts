@@ -0,0 +1,316 @@
+import { fileService } from './files';
+import { messageService } from './messages';
+import type { DirectMessage, GroupMessage } from '../types/chat';
+
+const DB_NAME = 'chitchat';
+const STORE_NAME = 'outbox';
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 60 * 1000;
+// After this many failures a message waits for a manual retry or for
+// connectivity to come back instead of retrying on a timer.
+const MAX_AUTO_ATTEMPTS = 8;
+
+export type OutboxStatus = 'sending' | 'failed';
+
+export interface OutboxFile {
+  name: string;
+  type: string;
+  size: number;
+  // The file itself until it is uploaded, then only its download URL
+  blob?: Blob;
+  url?: string;
+  // Upload progress (0-100) of the current attempt
+  progress?: number;
+}
+
+export interface OutboxEntry {
+  // Client-generated; stored as the message's client_id so retries are idempotent
+  id: string;
+  kind: 'dm' | 'group';
+  conversationId: string;
+  senderId: string;
+  content: string;
+  replyToId: string | null;
+  files: OutboxFile[];
+  // Missing on entries stored before mentions existed
+  mentions?: string[];
+  status: OutboxStatus;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
+}
+
+export interface OutboxDraft {
+  kind: 'dm' | 'group';
+  conversationId: string;
+  content: string;
+  replyToId: string | null;
+  files: File[];
+  mentions?: string[];
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+// Receives the row returned by send_message / send_group_message
+type SentListener = (entry: OutboxEntry, message: DirectMessage | GroupMessage) => void;
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class OutboxService {
+  private db: Promise<IDBDatabase> | null = null;
+  private userId: string | null = null;
+  private entries = new Map<string, OutboxEntry>();
+  private inFlight = new Set<string>();
+  private listeners = new Set<OutboxListener>();
+  private sentListeners = new Set<SentListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  // Loads whatever this user left unsent (e.g. before a reload) and resumes sending
+  async start(userId: string) {
+    this.stop();
+    this.userId = userId;
+    window.addEventListener('online', this.handleOnline);
+
+    try {
+      const stored = await this.request<OutboxEntry[]>('readonly', (store) => store.getAll());
+      if (this.userId !== userId) return;
+
+      stored
+        .filter((entry) => entry.senderId === userId)
+        .forEach((entry) => this.entries.set(entry.id, { ...entry, status: 'sending', nextAttemptAt: Date.now() }));
+      this.notify();
+      this.flush();
+    } catch (error) {
+      console.error('Error loading outbox:', error);
+    }
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.userId = null;
+    this.entries.clear();
+    this.notify();
+  }
+
+  async enqueue(draft: OutboxDraft) {
+    if (!this.userId) return;
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      kind: draft.kind,
+      conversationId: draft.conversationId,
+      senderId: this.userId,
+      content: draft.content,
+      replyToId: draft.replyToId,
+      files: draft.files.map((file) => ({ name: file.name, type: file.type, size: file.size, blob: file })),
+      mentions: draft.mentions,
+      status: 'sending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      createdAt: new Date().toISOString()
+    };
+
+    this.entries.set(entry.id, entry);
+    this.notify();
+    await this.persist(entry);
+    this.send(entry.id);
+  }
+
+  retry(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.entries.set(id, { ...entry, status: 'sending', nextAttemptAt: Date.now() });
+    this.notify();
+    this.send(id);
+  }
+
+  async discard(id: string) {
+    this.entries.delete(id);
+    this.notify();
+    await this.remove(id);
+  }
+
+  subscribe(listener: OutboxListener) {
+    this.listeners.add(listener);
+    listener(this.getEntries());
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Lets an open conversation show the server row as soon as the insert
+  // returns, without waiting for the realtime INSERT
+  onSent(listener: SentListener) {
+    this.sentListeners.add(listener);
+    return () => {
+      this.sentListeners.delete(listener);
+    };
+  }
+
+  private getEntries() {
+    return [...this.entries.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  private notify() {
+    const entries = this.getEntries();
+    this.listeners.forEach((listener) => listener(entries));
+  }
+
+  private handleOnline = () => {
+    this.entries.forEach((entry) => {
+      if (entry.status === 'failed') this.retry(entry.id);
+    });
+  };
+
+  // Sends everything that is due and schedules a wake-up for the next retry
+  private flush() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    const now = Date.now();
+    let nextAttemptAt = Infinity;
+    this.entries.forEach((entry) => {
+      if (this.inFlight.has(entry.id)) return;
+      if (entry.status === 'sending') {
+        this.send(entry.id);
+      } else if (entry.attempts < MAX_AUTO_ATTEMPTS) {
+        if (entry.nextAttemptAt <= now) {
+          this.send(entry.id);
+        } else {
+          nextAttemptAt = Math.min(nextAttemptAt, entry.nextAttemptAt);
+        }
+      }
+    });
+
+    if (nextAttemptAt !== Infinity) {
+      this.timer = setTimeout(() => this.flush(), nextAttemptAt - now);
+    }
+  }
+
+  private async send(id: string) {
+    const entry = this.entries.get(id);
+    if (!entry || this.inFlight.has(id)) return;
+    this.inFlight.add(id);
+
+    try {
+      if (!navigator.onLine) {
+        throw new Error('Offline');
+      }
+
+      // Files already uploaded on an earlier attempt keep their URL
+      for (let i = 0; i < entry.files.length; i++) {
+        if (entry.files[i].url) continue;
+        const url = await this.upload(entry, i);
+        entry.files[i] = { ...entry.files[i], url, blob: undefined };
+        if (!this.entries.has(id)) return;
+        await this.persist(entry);
+      }
+
+      // Discarded while its files were uploading
+      if (!this.entries.has(id)) return;
+
+      const files = entry.files.map((file) => ({
+        file_name: file.name,
+        file_type: file.type,
+        file_size: file.size,
+        firebase_url: file.url as string
+      }));
+      const data = await messageService.send(entry.kind, entry.conversationId, {
+        content: entry.content,
+        messageType: files.length > 0 ? 'file' : 'text',
+        replyToId: entry.replyToId,
+        files,
+        clientId: entry.id,
+        mentions: entry.mentions
+      });
+
+      // Hand over the server row before dropping the entry so the two
+      // updates land in the same render and the message never flickers
+      this.sentListeners.forEach((listener) => listener(entry, data));
+      this.entries.delete(id);
+      this.notify();
+      await this.remove(id);
+    } catch (error) {
+      console.error('Error sending message:', error);
+
+      // The entry may have been discarded while the attempt was running
+      if (this.entries.has(id)) {
+        const attempts = entry.attempts + 1;
+        const failed: OutboxEntry = {
+          ...entry,
+          status: 'failed',
+          attempts,
+          nextAttemptAt: Date.now() + Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS)
+        };
+        this.entries.set(id, failed);
+        this.notify();
+        await this.persist(failed);
+      }
+    } finally {
+      this.inFlight.delete(id);
+      this.flush();
+    }
+  }
+
+  private upload(entry: OutboxEntry, index: number) {
+    const file = entry.files[index];
+    if (!file.blob) {
+      return Promise.reject(new Error(`Missing data for ${file.name}`));
+    }
+
+    // The database only accepts attachments from the sender's own folder
+    const folder = `${entry.kind === 'dm' ? 'messages' : 'group_messages'}/${entry.senderId}`;
+    const setProgress = (progress: number) => {
+      entry.files[index] = { ...entry.files[index], progress };
+      this.notify();
+    };
+
+    setProgress(0);
+    return fileService.upload(folder, file.blob, file.name, setProgress);
+  }
+
+  private async persist(entry: OutboxEntry) {
+    try {
+      await this.request('readwrite', (store) => store.put(entry));
+    } catch (error) {
+      console.error('Error saving outbox entry:', error);
+    }
+  }
+
+  private async remove(id: string) {
+    try {
+      await this.request('readwrite', (store) => store.delete(id));
+    } catch (error) {
+      console.error('Error removing outbox entry:', error);
+    }
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+    if (!this.db) {
+      this.db = openDatabase();
+    }
+    const db = await this.db;
+
+    return new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+export const outboxService = new OutboxService();
@@ -0,0 +1,117 @@
+import { socketService } from './socket';
+import { profileService } from './profiles';
+import type { PresenceEvent, PresenceStatus } from '../types/socket';
+
+// No input for this long marks this tab as away
+const IDLE_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel'] as const;
+
+export interface Presence {
+  status: PresenceStatus;
+  lastSeen: string | null;
+}
+
+type PresenceListener = () => void;
+
+const OFFLINE: Presence = { status: 'offline', lastSeen: null };
+
+// Everyone's presence as published by the socket server, plus this tab's own
+// idle detection. The server combines the reports of all of a user's tabs.
+class PresenceService {
+  private userId: string | null = null;
+  private presence = new Map<string, Presence>();
+  private listeners = new Set<PresenceListener>();
+  private ownStatus: Exclude<PresenceStatus, 'offline'> = 'online';
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  start(userId: string) {
+    this.stop();
+    this.userId = userId;
+
+    socketService.on('presence', this.handlePresence);
+    // Events missed while disconnected are recovered from the stored copy
+    socketService.on('connect', this.handleConnect);
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, this.handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', this.handleActivity);
+
+    this.load();
+    this.handleActivity();
+  }
+
+  stop() {
+    socketService.off('presence', this.handlePresence);
+    socketService.off('connect', this.handleConnect);
+    ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, this.handleActivity));
+    document.removeEventListener('visibilitychange', this.handleActivity);
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.userId = null;
+    this.ownStatus = 'online';
+    this.presence.clear();
+    this.notify();
+  }
+
+  get(userId: string) {
+    return this.presence.get(userId) || OFFLINE;
+  }
+
+  subscribe(listener: PresenceListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async load() {
+    const userId = this.userId;
+
+    try {
+      const rows = await profileService.listPresence();
+      if (this.userId !== userId) return;
+
+      rows.forEach((row) => this.presence.set(row.id, { status: row.presence, lastSeen: row.last_seen }));
+      this.notify();
+    } catch (error) {
+      console.error('Error loading presence:', error);
+    }
+  }
+
+  private handlePresence = (event: PresenceEvent) => {
+    this.presence.set(event.userId, { status: event.status, lastSeen: event.lastSeen });
+    this.notify();
+  };
+
+  // A fresh socket starts out online on the server
+  private handleConnect = () => {
+    this.load();
+    if (this.ownStatus === 'away') {
+      socketService.emit('presence:status', 'away');
+    }
+  };
+
+  private handleActivity = () => {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+
+    if (document.hidden) {
+      this.report('away');
+      return;
+    }
+
+    this.report('online');
+    this.idleTimer = setTimeout(() => this.report('away'), IDLE_MS);
+  };
+
+  private report(status: Exclude<PresenceStatus, 'offline'>) {
+    if (this.ownStatus === status) return;
+    this.ownStatus = status;
+    socketService.emit('presence:status', status);
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const presenceService = new PresenceService();
@@ -0,0 +1,120 @@
+import { supabase } from '../config/supabase';
+import type { Profile, ProfileSummary } from '../types/chat';
+import type { PresenceStatus } from '../types/socket';
+
+// Display names and avatars change rarely, so lookups for message senders
+// are cached for the session instead of being fetched per message.
+const summaryCache = new Map<string, Promise<ProfileSummary | null>>();
+
+export const profileService = {
+  async getProfile(userId: string) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, email, display_name, avatar_url, bio, online_status, last_seen')
+      .eq('id', userId)
+      .single();
+
+    if (error) throw error;
+    return data as Profile;
+  },
+
+  // Everyone except `userId`, alphabetically
+  async listOtherProfiles(userId: string) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, email, display_name, avatar_url, online_status, last_seen')
+      .neq('id', userId)
+      .order('display_name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as Profile[];
+  },
+
+  getSummary(userId: string) {
+    let summary = summaryCache.get(userId);
+    if (!summary) {
+      summary = Promise.resolve(
+        supabase
+          .from('profiles')
+          .select('id, display_name, avatar_url')
+          .eq('id', userId)
+          .maybeSingle()
+      ).then(({ data }) => (data as ProfileSummary | null) || null);
+      summaryCache.set(userId, summary);
+    }
+    return summary;
+  },
+
+  async getSummaries(userIds: string[]) {
+    const missing = [...new Set(userIds)].filter((id) => !summaryCache.has(id));
+
+    if (missing.length > 0) {
+      const request = Promise.resolve(
+        supabase.from('profiles').select('id, display_name, avatar_url').in('id', missing)
+      ).then(({ data }) => (data || []) as ProfileSummary[]);
+
+      missing.forEach((id) => {
+        summaryCache.set(id, request.then((rows) => rows.find((p) => p.id === id) || null));
+      });
+    }
+
+    const summaries = await Promise.all(userIds.map((id) => summaryCache.get(id)!));
+    return new Map(
+      summaries.filter((s): s is ProfileSummary => !!s).map((s) => [s.id, s])
+    );
+  },
+
+  async profileExists(userId: string) {
+    const { data } = await supabase.from('profiles').select('id').eq('id', userId).maybeSingle();
+    return !!data;
+  },
+
+  // Sign-up and the auth state listener can both try to create the profile;
+  // whichever runs second is a no-op
+  async createProfile(profile: { id: string; email: string | null; display_name: string }) {
+    const { error } = await supabase.from('profiles').upsert(
+      {
+        ...profile,
+        created_at: new Date().toISOString()
+      },
+      { onConflict: 'id', ignoreDuplicates: true }
+    );
+
+    if (error) throw error;
+  },
+
+  async updateProfile(userId: string, fields: { display_name: string; bio: string; avatar_url: string }) {
+    const { error } = await supabase
+      .from('profiles')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) throw error;
+    summaryCache.delete(userId);
+  },
+
+  // Stored presence of everyone; the socket server keeps it current
+  async listPresence() {
+    const { data, error } = await supabase.from('profiles').select('id, presence, last_seen');
+
+    if (error) throw error;
+    return (data || []) as { id: string; presence: PresenceStatus; last_seen: string | null }[];
+  },
+
+  // Fires with the new row whenever a profile is created or updated; returns an unsubscribe function
+  subscribe(onChange: (profile: Profile) => void) {
+    const channel = supabase
+      .channel('profiles_realtime')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'profiles' }, (payload) => {
+        const changed = payload.new as Profile;
+        if (!changed.id) return;
+        summaryCache.delete(changed.id);
+        onChange(changed);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+};
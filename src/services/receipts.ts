@@ -0,0 +1,56 @@
+import { supabase } from '../config/supabase';
+import { messageService } from './messages';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import type { DirectMessage } from '../types/chat';
+
+// Acknowledges DMs as delivered once they reach this client: everything
+// pending when the user signs in or comes back online, then each new
+// message as it arrives over realtime.
+class DeliveryService {
+  private userId: string | null = null;
+  private channel: RealtimeChannel | null = null;
+
+  start(userId: string) {
+    this.stop();
+    this.userId = userId;
+    window.addEventListener('online', this.handleOnline);
+
+    this.channel = supabase
+      .channel(`deliveries_${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `receiver_id=eq.${userId}` },
+        (payload) => {
+          this.acknowledge([(payload.new as DirectMessage).id]);
+        }
+      )
+      .subscribe();
+
+    this.acknowledge();
+  }
+
+  stop() {
+    window.removeEventListener('online', this.handleOnline);
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.userId = null;
+  }
+
+  private handleOnline = () => {
+    this.acknowledge();
+  };
+
+  private async acknowledge(messageIds?: string[]) {
+    if (!this.userId) return;
+
+    try {
+      await messageService.markDelivered(messageIds);
+    } catch (error) {
+      console.error('Error acknowledging delivery:', error);
+    }
+  }
+}
+
+export const deliveryService = new DeliveryService();
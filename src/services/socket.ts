@@ -1,53 +1,105 @@
   import { io, Socket } from 'socket.io-client';
+  import type { ClientToServerEvents, ServerToClientEvents } from '../types/socket';
+
+  type ChatSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+  // Server events plus `connect`, which fires again after every reconnect
+  type SocketEvents = ServerToClientEvents & { connect: () => void };
+  type SocketListeners = { [E in keyof SocketEvents]: Set<SocketEvents[E]> };
+
+  const SOCKET_URL = import.meta.env.VITE_SOCKET_URL || 'http://localhost:3000';
+  // Wait before trying again when the server turned the handshake down
+  const RETRY_DELAY_MS = 5000;
 
   class SocketService {
-    private socket: Socket | null = null;
+    private socket: ChatSocket | null = null;
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    // Kept here rather than on the socket so listeners can be added before
+    // connect() and survive it creating a new socket
+    private listeners: SocketListeners = {
+      connect: new Set(),
+      typing: new Set(),
+      presence: new Set()
+    };
+
+    // The token getter runs on every (re)connect so reconnects after the
+    // hourly Firebase ID token rotation still authenticate.
+    connect(userId: string, getToken: () => Promise<string>) {
+      this.disconnect();
 
-    connect(userId: string) {
-      this.socket = io('http://localhost:3000', {
-        query: { userId }
+      const socket: ChatSocket = io(SOCKET_URL, {
+        query: { userId },
+        auth: (cb) => {
+          getToken()
+            .then((token) => cb({ token }))
+            .catch((error) => {
+              // The server rejects the handshake and connect_error retries
+              console.error('Error getting socket token:', error);
+              cb({});
+            });
+        }
       });
+      this.socket = socket;
 
-      this.socket.on('connect', () => {
+      socket.on('connect', () => {
         console.log('Socket connected');
+        this.listeners.connect.forEach((listener) => listener());
       });
 
-      this.socket.on('disconnect', () => {
+      socket.on('disconnect', () => {
         console.log('Socket disconnected');
       });
 
-      return this.socket;
+      socket.on('connect_error', (error) => {
+        console.error('Socket connection error:', error.message);
+        // Socket.IO only retries by itself when the server was unreachable
+        if (!socket.active && !this.retryTimer) {
+          this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            if (this.socket === socket) socket.connect();
+          }, RETRY_DELAY_MS);
+        }
+      });
+
+      socket.on('typing', (event) => {
+        this.listeners.typing.forEach((listener) => listener(event));
+      });
+
+      socket.on('presence', (event) => {
+        this.listeners.presence.forEach((listener) => listener(event));
+      });
+
+      return socket;
     }
 
     disconnect() {
+      if (this.retryTimer) {
+        clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+      }
       if (this.socket) {
         this.socket.disconnect();
         this.socket = null;
       }
     }
 
-    emit(event: string, data: unknown) {
+    emit<E extends keyof ClientToServerEvents>(event: E, ...data: Parameters<ClientToServerEvents[E]>) {
       if (this.socket) {
-        this.socket.emit(event, data);
+        this.socket.emit(event, ...data);
       }
     }
 
-    on(event: string, callback: (...args: unknown[]) => void) {
-      if (this.socket) {
-        this.socket.on(event, callback);
-      }
+    on<E extends keyof SocketEvents>(event: E, callback: SocketEvents[E]) {
+      this.listeners[event].add(callback);
     }
 
-    off(event: string) {
-      if (this.socket) {
-        this.socket.off(event);
+    off<E extends keyof SocketEvents>(event: E, callback?: SocketEvents[E]) {
+      if (callback) {
+        this.listeners[event].delete(callback);
+      } else {
+        this.listeners[event].clear();
       }
     }
-
-    getSocket() {
-      return this.socket;
-    }
   }
 
   export const socketService = new SocketService();
-  
\ No newline at end of file
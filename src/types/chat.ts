@@ -0,0 +1,246 @@
+// Row shapes returned by the data-access services in src/services.
+
+export type MessageKind = 'dm' | 'group';
+
+export interface ProfileSummary {
+  id: string;
+  display_name: string;
+  avatar_url?: string;
+}
+
+export interface Profile extends ProfileSummary {
+  email: string;
+  bio?: string;
+  online_status: boolean;
+  last_seen?: string;
+}
+
+export interface MessageFile {
+  file_name: string;
+  file_type: string;
+  firebase_url: string;
+}
+
+export interface Reaction {
+  user_id: string;
+  emoji: string;
+}
+
+export interface QuotedMessage {
+  id: string;
+  content: string;
+  message_type: string;
+  deleted_at?: string | null;
+}
+
+interface BaseMessage {
+  id: string;
+  sender_id: string;
+  content: string;
+  message_type: string;
+  created_at: string;
+  edited_at?: string | null;
+  deleted_at?: string | null;
+  reply_to_id?: string | null;
+  client_id?: string | null;
+  reactions?: Reaction[];
+  files?: MessageFile[];
+}
+
+export interface DirectMessage extends BaseMessage {
+  receiver_id: string;
+  read: boolean;
+  delivered_at?: string | null;
+  read_at?: string | null;
+  reply_to?: (QuotedMessage & {
+    sender_id: string;
+  }) | null;
+}
+
+export interface GroupMessage extends BaseMessage {
+  group_id: string;
+  // Members the message is addressed to
+  mentions?: string[];
+  reply_to?: (QuotedMessage & {
+    sender_id: string;
+    sender?: { display_name: string } | null;
+  }) | null;
+  sender?: {
+    display_name: string;
+    avatar_url?: string;
+  };
+}
+
+export interface MessageByKind {
+  dm: DirectMessage;
+  group: GroupMessage;
+}
+
+export interface ReactionChange extends Reaction {
+  message_id: string;
+}
+
+export interface Group {
+  id: string;
+  name: string;
+  description: string;
+  avatar_url?: string;
+  created_by: string;
+  created_at: string;
+  only_admins_can_post: boolean;
+}
+
+export type GroupRole = 'owner' | 'admin' | 'member';
+
+// Mirrors `group_permissions()`; the server decides which ones a member has
+export type GroupPermission =
+  | 'edit_info'
+  | 'add_members'
+  | 'remove_members'
+  | 'manage_admins'
+  | 'manage_invites'
+  | 'view_audit_log'
+  | 'post'
+  | 'transfer_ownership'
+  | 'delete_group';
+
+export interface GroupMember {
+  id: string;
+  user_id: string;
+  role: GroupRole;
+  display_name: string;
+  email: string;
+  avatar_url?: string;
+  online_status: boolean;
+}
+
+export interface GroupInvite {
+  id: string;
+  group_id: string;
+  token: string;
+  created_by: string;
+  expires_at: string | null;
+  max_uses: number | null;
+  use_count: number;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type GroupEventType =
+  | 'created'
+  | 'renamed'
+  | 'description_changed'
+  | 'avatar_changed'
+  | 'posting_changed'
+  | 'member_added'
+  | 'member_joined'
+  | 'member_removed'
+  | 'member_left'
+  | 'role_changed';
+
+// A change to a group, recorded by the server; names are as they were at the time
+export interface GroupEvent {
+  id: string;
+  group_id: string;
+  actor_id: string | null;
+  event_type: GroupEventType;
+  target_user_id: string | null;
+  details: {
+    actor_name?: string;
+    target_name?: string;
+    name?: string;
+    old_name?: string;
+    role?: GroupRole;
+    old_role?: GroupRole;
+    only_admins_can_post?: boolean;
+  };
+  created_at: string;
+}
+
+export type InviteStatus = 'valid' | 'expired' | 'revoked' | 'used_up';
+
+// What someone opening an invite link sees before joining
+export interface InvitePreview {
+  group_id: string;
+  name: string;
+  description: string | null;
+  avatar_url: string | null;
+  member_count: number;
+  is_member: boolean;
+  status: InviteStatus;
+}
+
+// A member's position in a group: everything up to `last_read_at` has been read
+export interface ReadMarker {
+  user_id: string;
+  last_read_at: string | null;
+}
+
+export interface LastMessage {
+  content: string;
+  created_at: string;
+  sender_id: string;
+  message_type: string;
+  sender_name?: string;
+}
+
+// The current user's own preferences for one conversation; all null by default
+export interface ConversationSettings {
+  pinned_at: string | null;
+  muted_until: string | null;
+  archived_at: string | null;
+}
+
+export interface DirectConversation extends Profile {
+  unreadCount: number;
+  lastMessage?: LastMessage;
+  settings: ConversationSettings;
+}
+
+export interface GroupConversation extends Group {
+  // The current user's `group_members` row
+  membershipId: string;
+  member_count: number;
+  unreadCount: number;
+  // Unread messages that mention the current user, also counted in `unreadCount`
+  unreadMentions: number;
+  lastMessage?: LastMessage;
+  settings: ConversationSettings;
+}
+
+export interface SearchResult {
+  kind: MessageKind;
+  message_id: string;
+  conversation_id: string;
+  conversation_name: string;
+  sender_id: string;
+  sender_name: string;
+  snippet: string;
+  created_at: string;
+}
+
+export interface SharedFile {
+  id: string;
+  message_id: string;
+  file_name: string;
+  file_type: string;
+  file_size: number;
+  firebase_url: string;
+  sender_id: string;
+  created_at: string;
+}
+
+export interface SharedLink {
+  message_id: string;
+  url: string;
+  sender_id: string;
+  created_at: string;
+}
+
+export type ReportReason = 'spam' | 'harassment' | 'inappropriate' | 'other';
+
+// A specific message attached to a report
+export interface ReportedMessage {
+  kind: MessageKind;
+  id: string;
+}
@@ -0,0 +1,45 @@
+// Event contracts shared by the Socket.IO server (server/) and SocketService.
+
+export type ConversationRef =
+  | { type: 'dm'; id: string }
+  | { type: 'group'; id: string };
+
+export interface TypingPayload {
+  conversation: ConversationRef;
+  isTyping: boolean;
+}
+
+export interface TypingEvent extends TypingPayload {
+  userId: string;
+  displayName: string;
+}
+
+// 'away' means every one of the user's tabs and devices is hidden or idle
+export type PresenceStatus = 'online' | 'away' | 'offline';
+
+export interface PresenceEvent {
+  userId: string;
+  status: PresenceStatus;
+  lastSeen: string;
+}
+
+export interface ServerToClientEvents {
+  typing: (event: TypingEvent) => void;
+  presence: (event: PresenceEvent) => void;
+}
+
+export interface ClientToServerEvents {
+  typing: (payload: TypingPayload) => void;
+  'group:join': (groupId: string) => void;
+  'group:leave': (groupId: string) => void;
+  // Activity of this one socket; the server combines all of the user's sockets
+  'presence:status': (status: Exclude<PresenceStatus, 'offline'>) => void;
+}
+
+export interface SocketData {
+  userId: string;
+  displayName: string;
+}
+
+export const userRoom = (userId: string) => `user:${userId}`;
+export const groupRoom = (groupId: string) => `group:${groupId}`;
@@ -0,0 +1,29 @@
+/*
+  # Columns used by the app but missing from the initial schema
+
+  1. Modified Tables
+    - `profiles`
+      - `bio` (text, nullable)
+      - `updated_at` (timestamptz)
+
+    - `messages`
+      - `read` (boolean, default false) - written by ChatWindow when a chat is opened
+
+  2. Indexes
+    - Partial index on unread messages per receiver for the sidebar unread counts
+
+  3. Realtime
+    - Publish `profiles` and `messages` so the postgres_changes subscriptions fire
+*/
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS bio text;
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS read boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_messages_unread
+  ON messages(receiver_id, sender_id)
+  WHERE read = false;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE profiles;
+ALTER PUBLICATION supabase_realtime ADD TABLE messages;
@@ -0,0 +1,237 @@
+/*
+  # Group chats
+
+  1. New Tables
+    - `groups`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `description` (text, nullable)
+      - `avatar_url` (text, nullable)
+      - `created_by` (uuid, references profiles)
+      - `created_at` (timestamptz)
+
+    - `group_members`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references groups)
+      - `user_id` (uuid, references profiles)
+      - `role` (text, 'admin' or 'member')
+      - `joined_at` (timestamptz)
+      - `last_read_at` (timestamptz, nullable)
+      - unique (group_id, user_id)
+
+    - `group_messages`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references groups)
+      - `sender_id` (uuid, references profiles)
+      - `content` (text)
+      - `message_type` (text, default 'text')
+      - `created_at` (timestamptz)
+
+    - `group_files`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references group_messages)
+      - `file_name` (text)
+      - `file_type` (text)
+      - `file_size` (bigint)
+      - `firebase_url` (text)
+      - `uploaded_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on all tables
+    - Membership checks go through SECURITY DEFINER helpers so the
+      `group_members` policies don't recurse into themselves
+    - Members can read their groups, members, messages and files
+    - Admins can edit the group and manage members
+    - Members may only update their own `last_read_at`; role changes are
+      rejected by a trigger unless made by an admin
+*/
+
+CREATE TABLE IF NOT EXISTS groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  avatar_url text,
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  role text NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  joined_at timestamptz DEFAULT now(),
+  last_read_at timestamptz,
+  UNIQUE (group_id, user_id)
+);
+
+CREATE TABLE IF NOT EXISTS group_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content text NOT NULL,
+  message_type text DEFAULT 'text',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_files (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_type text NOT NULL,
+  file_size bigint NOT NULL,
+  firebase_url text NOT NULL,
+  uploaded_at timestamptz DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION is_group_member(p_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_group_admin(p_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid() AND role = 'admin'
+  );
+$$;
+
+-- groups
+
+ALTER TABLE groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view their groups"
+  ON groups FOR SELECT
+  TO authenticated
+  USING (created_by = auth.uid() OR is_group_member(id));
+
+CREATE POLICY "Users can create groups"
+  ON groups FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Admins can update groups"
+  ON groups FOR UPDATE
+  TO authenticated
+  USING (is_group_admin(id))
+  WITH CHECK (is_group_admin(id));
+
+-- group_members
+
+ALTER TABLE group_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view group members"
+  ON group_members FOR SELECT
+  TO authenticated
+  USING (is_group_member(group_id));
+
+-- The creator adds themselves and the initial members before any admin row exists
+CREATE POLICY "Admins and creators can add members"
+  ON group_members FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_group_admin(group_id)
+    OR EXISTS (
+      SELECT 1 FROM groups
+      WHERE groups.id = group_members.group_id
+      AND groups.created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Admins and the member can update membership"
+  ON group_members FOR UPDATE
+  TO authenticated
+  USING (is_group_admin(group_id) OR user_id = auth.uid())
+  WITH CHECK (is_group_admin(group_id) OR user_id = auth.uid());
+
+CREATE POLICY "Admins can remove members"
+  ON group_members FOR DELETE
+  TO authenticated
+  USING (is_group_admin(group_id));
+
+CREATE OR REPLACE FUNCTION protect_group_member_role()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role AND NOT is_group_admin(OLD.group_id) THEN
+    RAISE EXCEPTION 'Only group admins can change member roles';
+  END IF;
+  IF NEW.group_id IS DISTINCT FROM OLD.group_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Membership group and user cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER group_members_protect_role
+  BEFORE UPDATE ON group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_group_member_role();
+
+-- group_messages
+
+ALTER TABLE group_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view group messages"
+  ON group_messages FOR SELECT
+  TO authenticated
+  USING (is_group_member(group_id));
+
+CREATE POLICY "Members can send group messages"
+  ON group_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND is_group_member(group_id));
+
+-- group_files
+
+ALTER TABLE group_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view group files"
+  ON group_files FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_messages
+      WHERE group_messages.id = group_files.message_id
+      AND is_group_member(group_messages.group_id)
+    )
+  );
+
+CREATE POLICY "Senders can upload group files"
+  ON group_files FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM group_messages
+      WHERE group_messages.id = group_files.message_id
+      AND group_messages.sender_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_groups_created_by ON groups(created_by);
+CREATE INDEX IF NOT EXISTS idx_group_members_group ON group_members(group_id);
+CREATE INDEX IF NOT EXISTS idx_group_members_user ON group_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_group_messages_group_created ON group_messages(group_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_group_messages_sender ON group_messages(sender_id);
+CREATE INDEX IF NOT EXISTS idx_group_files_message ON group_files(message_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE groups;
+ALTER PUBLICATION supabase_realtime ADD TABLE group_members;
+ALTER PUBLICATION supabase_realtime ADD TABLE group_messages;
@@ -0,0 +1,410 @@
+/*
+  # Editing and deleting sent messages
+
+  1. Modified Tables
+    - `messages`, `group_messages`
+      - `edited_at` (timestamptz, nullable) - set on every edit
+      - `deleted_at` (timestamptz, nullable) - "delete for everyone" tombstone
+    - `files`, `group_files`
+      - `storage_path` (text, nullable) - the Firebase Storage object behind
+        `firebase_url`, set on insert. Files attached before this migration
+        have none and are never deleted from Storage.
+
+  2. New Tables
+    - `message_edits`, `group_message_edits`
+      - `id` (uuid, primary key)
+      - `message_id` (uuid, references the message)
+      - `previous_content` (text)
+      - `edited_at` (timestamptz)
+    - `hidden_messages`, `hidden_group_messages` - messages a user deleted
+      "for me". Kept apart from the message rows, whose updates reach the
+      other participants over realtime.
+      - `user_id` (uuid)
+      - `message_id` (uuid, references the message)
+      - `hidden_at` (timestamptz)
+    - `pending_storage_deletions` - paths of Firebase Storage objects whose
+      rows are gone. The socket server deletes the objects with the Admin SDK
+      and removes each entry once that has succeeded.
+      - `id` (uuid, primary key)
+      - `path` (text)
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `storage_path_from_url(p_url)` - the object path in a Firebase Storage
+      download URL, or NULL for anything else
+    - `edit_message` / `edit_group_message` - sender only, within 15 minutes
+    - `delete_message` / `delete_group_message` - "for me" by any participant,
+      "for everyone" by the sender within 1 hour; clears content and files
+      and queues the stored files no other message uses for deletion
+
+  4. Security
+    - Edits and deletes go through the functions above; direct updates from
+      clients may only touch the read state (`read`, `read_at`)
+    - Participants can read the edit history of messages they can see
+    - Users can only see which messages they hid themselves
+    - Attachments must point at the sender's own uploads, which the clients
+      store under `messages/<sender id>/` and `group_messages/<sender id>/`,
+      so deleting a message can only remove its sender's files
+    - `pending_storage_deletions` has no policies; only the service role
+      reads it
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS edited_at timestamptz;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS deleted_at timestamptz;
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS storage_path text;
+ALTER TABLE group_files ADD COLUMN IF NOT EXISTS storage_path text;
+
+CREATE INDEX IF NOT EXISTS idx_files_storage_path ON files(storage_path);
+CREATE INDEX IF NOT EXISTS idx_group_files_storage_path ON group_files(storage_path);
+
+CREATE TABLE IF NOT EXISTS message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS group_message_edits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  previous_content text NOT NULL,
+  edited_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE group_message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view message edits"
+  ON message_edits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_edits.message_id
+      AND (messages.sender_id = auth.uid() OR messages.receiver_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Members can view group message edits"
+  ON group_message_edits FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_messages
+      WHERE group_messages.id = group_message_edits.message_id
+      AND is_group_member(group_messages.group_id)
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message ON message_edits(message_id);
+CREATE INDEX IF NOT EXISTS idx_group_message_edits_message ON group_message_edits(message_id);
+
+CREATE TABLE IF NOT EXISTS hidden_messages (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  hidden_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+CREATE TABLE IF NOT EXISTS hidden_group_messages (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  hidden_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE hidden_messages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE hidden_group_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view messages they hid"
+  ON hidden_messages FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view group messages they hid"
+  ON hidden_group_messages FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_hidden_messages_message ON hidden_messages(message_id);
+CREATE INDEX IF NOT EXISTS idx_hidden_group_messages_message ON hidden_group_messages(message_id);
+
+-- Lets the user's other tabs drop a message as soon as it is hidden
+ALTER PUBLICATION supabase_realtime ADD TABLE hidden_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE hidden_group_messages;
+
+CREATE TABLE IF NOT EXISTS pending_storage_deletions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  path text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE pending_storage_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_pending_storage_deletions_created ON pending_storage_deletions(created_at);
+
+-- Download URLs look like
+-- https://firebasestorage.googleapis.com/v0/b/<bucket>/o/<encoded path>?alt=media&token=...
+CREATE OR REPLACE FUNCTION storage_path_from_url(p_url text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_encoded text;
+  v_bytes bytea;
+BEGIN
+  v_encoded := (regexp_match(p_url, '^https://firebasestorage\.googleapis\.com/v0/b/[^/?#]+/o/([^/?#]+)(\?[^#]*)?$'))[1];
+  IF v_encoded IS NULL OR v_encoded !~ '^([^%]|%[0-9A-Fa-f]{2})+$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT string_agg(
+    CASE WHEN t[1] IS NULL THEN convert_to(t[2], 'UTF8') ELSE decode(substr(t[1], 2), 'hex') END,
+    ''::bytea ORDER BY n
+  )
+  INTO v_bytes
+  FROM regexp_matches(v_encoded, '(%[0-9A-Fa-f]{2})|([^%]+)', 'g') WITH ORDINALITY AS m(t, n);
+
+  RETURN convert_from(v_bytes, 'UTF8');
+EXCEPTION WHEN character_not_in_repertoire THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_file_storage_path()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_prefix text;
+BEGIN
+  IF TG_TABLE_NAME = 'files' THEN
+    SELECT 'messages/' || sender_id || '/' INTO v_prefix FROM messages WHERE id = NEW.message_id;
+  ELSE
+    SELECT 'group_messages/' || sender_id || '/' INTO v_prefix FROM group_messages WHERE id = NEW.message_id;
+  END IF;
+
+  NEW.storage_path := storage_path_from_url(NEW.firebase_url);
+  IF NEW.storage_path IS NULL OR v_prefix IS NULL OR NOT starts_with(NEW.storage_path, v_prefix) THEN
+    RAISE EXCEPTION 'Attachments must be files uploaded by the sender';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER files_set_storage_path
+  BEFORE INSERT OR UPDATE ON files
+  FOR EACH ROW
+  EXECUTE FUNCTION set_file_storage_path();
+
+CREATE TRIGGER group_files_set_storage_path
+  BEFORE INSERT OR UPDATE ON group_files
+  FOR EACH ROW
+  EXECUTE FUNCTION set_file_storage_path();
+
+-- Receivers keep their UPDATE policy for read receipts; everything else has
+-- to come through the SECURITY DEFINER functions, which run as the owner.
+CREATE OR REPLACE FUNCTION protect_message_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.content IS DISTINCT FROM OLD.content
+    OR NEW.message_type IS DISTINCT FROM OLD.message_type
+    OR NEW.sender_id IS DISTINCT FROM OLD.sender_id
+    OR NEW.receiver_id IS DISTINCT FROM OLD.receiver_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR NEW.edited_at IS DISTINCT FROM OLD.edited_at
+    OR NEW.deleted_at IS DISTINCT FROM OLD.deleted_at
+  ) THEN
+    RAISE EXCEPTION 'Messages can only be edited or deleted through edit_message/delete_message';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_protect_columns
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_message_columns();
+
+CREATE OR REPLACE FUNCTION edit_message(p_message_id uuid, p_content text)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+  IF v_message.deleted_at IS NOT NULL OR v_message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'This message cannot be edited';
+  END IF;
+  IF v_message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+  IF coalesce(trim(p_content), '') = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+  IF p_content = v_message.content THEN
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO message_edits (message_id, previous_content)
+  VALUES (p_message_id, v_message.content);
+
+  UPDATE messages
+  SET content = p_content, edited_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_message(p_message_id uuid, p_for_everyone boolean DEFAULT false)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages;
+BEGIN
+  SELECT * INTO v_message FROM messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message.id IS NULL OR auth.uid() NOT IN (v_message.sender_id, v_message.receiver_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF NOT p_for_everyone THEN
+    INSERT INTO hidden_messages (user_id, message_id)
+    VALUES (auth.uid(), p_message_id)
+    ON CONFLICT DO NOTHING;
+    RETURN v_message;
+  END IF;
+
+  IF v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete a message for everyone';
+  END IF;
+  IF v_message.created_at < now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'Messages can only be deleted for everyone within 1 hour of sending';
+  END IF;
+
+  -- The same upload can be attached to several messages
+  INSERT INTO pending_storage_deletions (path)
+  SELECT DISTINCT f.storage_path
+  FROM files f
+  WHERE f.message_id = p_message_id
+    AND f.storage_path IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM files o WHERE o.storage_path = f.storage_path AND o.message_id <> p_message_id);
+
+  DELETE FROM files WHERE message_id = p_message_id;
+  DELETE FROM message_edits WHERE message_id = p_message_id;
+
+  UPDATE messages
+  SET content = '', deleted_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION edit_group_message(p_message_id uuid, p_content text)
+RETURNS group_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message group_messages;
+BEGIN
+  SELECT * INTO v_message FROM group_messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message.id IS NULL OR v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+  IF v_message.deleted_at IS NOT NULL OR v_message.message_type <> 'text' THEN
+    RAISE EXCEPTION 'This message cannot be edited';
+  END IF;
+  IF v_message.created_at < now() - interval '15 minutes' THEN
+    RAISE EXCEPTION 'Messages can only be edited within 15 minutes of sending';
+  END IF;
+  IF coalesce(trim(p_content), '') = '' THEN
+    RAISE EXCEPTION 'Message cannot be empty';
+  END IF;
+  IF p_content = v_message.content THEN
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO group_message_edits (message_id, previous_content)
+  VALUES (p_message_id, v_message.content);
+
+  UPDATE group_messages
+  SET content = p_content, edited_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_group_message(p_message_id uuid, p_for_everyone boolean DEFAULT false)
+RETURNS group_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_message group_messages;
+BEGIN
+  SELECT * INTO v_message FROM group_messages WHERE id = p_message_id FOR UPDATE;
+
+  IF v_message.id IS NULL OR NOT is_group_member(v_message.group_id) THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  IF NOT p_for_everyone THEN
+    INSERT INTO hidden_group_messages (user_id, message_id)
+    VALUES (auth.uid(), p_message_id)
+    ON CONFLICT DO NOTHING;
+    RETURN v_message;
+  END IF;
+
+  IF v_message.sender_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Only the sender can delete a message for everyone';
+  END IF;
+  IF v_message.created_at < now() - interval '1 hour' THEN
+    RAISE EXCEPTION 'Messages can only be deleted for everyone within 1 hour of sending';
+  END IF;
+
+  INSERT INTO pending_storage_deletions (path)
+  SELECT DISTINCT f.storage_path
+  FROM group_files f
+  WHERE f.message_id = p_message_id
+    AND f.storage_path IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM group_files o WHERE o.storage_path = f.storage_path AND o.message_id <> p_message_id);
+
+  DELETE FROM group_files WHERE message_id = p_message_id;
+  DELETE FROM group_message_edits WHERE message_id = p_message_id;
+
+  UPDATE group_messages
+  SET content = '', deleted_at = now()
+  WHERE id = p_message_id
+  RETURNING * INTO v_message;
+
+  RETURN v_message;
+END;
+$$;
@@ -0,0 +1,66 @@
+/*
+  # Reply-to / quoted messages
+
+  1. Modified Tables
+    - `messages`
+      - `reply_to_id` (uuid, nullable, references messages)
+    - `group_messages`
+      - `reply_to_id` (uuid, nullable, references group_messages)
+
+  2. Integrity
+    - Replies must quote a message from the same conversation; enforced by
+      triggers since the check spans two rows
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS reply_to_id uuid REFERENCES messages(id) ON DELETE SET NULL;
+
+ALTER TABLE group_messages
+  ADD COLUMN IF NOT EXISTS reply_to_id uuid REFERENCES group_messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_reply_to ON messages(reply_to_id);
+CREATE INDEX IF NOT EXISTS idx_group_messages_reply_to ON group_messages(reply_to_id);
+
+CREATE OR REPLACE FUNCTION check_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM messages
+    WHERE id = NEW.reply_to_id
+    AND (
+      (sender_id = NEW.sender_id AND receiver_id = NEW.receiver_id)
+      OR (sender_id = NEW.receiver_id AND receiver_id = NEW.sender_id)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER messages_check_reply
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_message_reply();
+
+CREATE OR REPLACE FUNCTION check_group_message_reply()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM group_messages
+    WHERE id = NEW.reply_to_id AND group_id = NEW.group_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same group';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER group_messages_check_reply
+  BEFORE INSERT ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION check_group_message_reply();
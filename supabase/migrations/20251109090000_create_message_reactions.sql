@@ -0,0 +1,106 @@
+/*
+  # Emoji reactions
+
+  1. New Tables
+    - `message_reactions`
+      - `message_id` (uuid, references messages)
+      - `user_id` (uuid, references profiles)
+      - `emoji` (text)
+      - `created_at` (timestamptz)
+      - primary key (message_id, user_id, emoji)
+
+    - `group_message_reactions`
+      - same columns, `message_id` references group_messages
+      - `group_id` (uuid, references groups) - denormalised so realtime
+        subscriptions can filter by group
+
+  2. Security
+    - Enable RLS on both tables
+    - Anyone who can see the message can see its reactions
+    - Users can add and remove only their own reactions
+
+  3. Realtime
+    - Publish both tables; the composite primary key means DELETE payloads
+      carry every column the client needs
+*/
+
+CREATE TABLE IF NOT EXISTS message_reactions (
+  message_id uuid NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+CREATE TABLE IF NOT EXISTS group_message_reactions (
+  message_id uuid NOT NULL REFERENCES group_messages(id) ON DELETE CASCADE,
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji text NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (message_id, user_id, emoji)
+);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view reactions"
+  ON message_reactions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reactions.message_id
+      AND (messages.sender_id = auth.uid() OR messages.receiver_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Participants can react"
+  ON message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages
+      WHERE messages.id = message_reactions.message_id
+      AND messages.deleted_at IS NULL
+      AND (messages.sender_id = auth.uid() OR messages.receiver_id = auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can remove own reactions"
+  ON message_reactions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER TABLE group_message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view group reactions"
+  ON group_message_reactions FOR SELECT
+  TO authenticated
+  USING (is_group_member(group_id));
+
+CREATE POLICY "Members can react in groups"
+  ON group_message_reactions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    user_id = auth.uid()
+    AND is_group_member(group_id)
+    AND EXISTS (
+      SELECT 1 FROM group_messages
+      WHERE group_messages.id = group_message_reactions.message_id
+      AND group_messages.group_id = group_message_reactions.group_id
+      AND group_messages.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Users can remove own group reactions"
+  ON group_message_reactions FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_message ON message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS idx_group_message_reactions_message ON group_message_reactions(message_id);
+CREATE INDEX IF NOT EXISTS idx_group_message_reactions_group ON group_message_reactions(group_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+ALTER PUBLICATION supabase_realtime ADD TABLE group_message_reactions;
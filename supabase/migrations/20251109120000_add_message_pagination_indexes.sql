@@ -0,0 +1,20 @@
+/*
+  # Indexes for keyset pagination
+
+  Message history is fetched newest-first in pages using a
+  (created_at, id) cursor, per conversation.
+
+  1. Indexes
+    - `messages` (sender_id, receiver_id, created_at DESC, id DESC) - covers
+      both directions of a DM via the two OR branches
+    - `group_messages` (group_id, created_at DESC, id DESC) - replaces the
+      (group_id, created_at DESC) index
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_conversation_page
+  ON messages(sender_id, receiver_id, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_page
+  ON group_messages(group_id, created_at DESC, id DESC);
+
+DROP INDEX IF EXISTS idx_group_messages_group_created;
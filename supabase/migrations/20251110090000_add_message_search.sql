@@ -0,0 +1,106 @@
+/*
+  # Full-text message search
+
+  1. Modified Tables
+    - `messages`, `group_messages`
+      - `content_tsv` (tsvector, generated from `content`)
+
+  2. Indexes
+    - GIN index on each `content_tsv`
+
+  3. Functions
+    - `search_messages(p_query, p_limit)` - searches DMs and groups the caller
+      can see, ranked by ts_rank. Runs as the caller so the existing RLS
+      policies decide visibility. Snippets wrap matches in <mark></mark>.
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+ALTER TABLE group_messages
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (to_tsvector('english', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_tsv ON messages USING GIN (content_tsv);
+CREATE INDEX IF NOT EXISTS idx_group_messages_content_tsv ON group_messages USING GIN (content_tsv);
+
+CREATE OR REPLACE FUNCTION search_messages(p_query text, p_limit integer DEFAULT 30)
+RETURNS TABLE (
+  kind text,
+  message_id uuid,
+  conversation_id uuid,
+  conversation_name text,
+  sender_id uuid,
+  sender_name text,
+  snippet text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  ),
+  hits AS (
+    SELECT
+      'dm'::text AS kind,
+      m.id AS message_id,
+      CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END AS conversation_id,
+      m.sender_id,
+      m.content,
+      m.created_at,
+      ts_rank(m.content_tsv, q.query) AS rank
+    FROM messages m, q
+    WHERE m.content_tsv @@ q.query
+      AND m.message_type = 'text'
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+      AND (m.sender_id = auth.uid() OR m.receiver_id = auth.uid())
+
+    UNION ALL
+
+    SELECT
+      'group'::text,
+      gm.id,
+      gm.group_id,
+      gm.sender_id,
+      gm.content,
+      gm.created_at,
+      ts_rank(gm.content_tsv, q.query)
+    FROM group_messages gm, q
+    WHERE gm.content_tsv @@ q.query
+      AND gm.message_type = 'text'
+      AND gm.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = gm.id AND h.user_id = auth.uid())
+  ),
+  top AS (
+    SELECT * FROM hits
+    ORDER BY rank DESC, created_at DESC
+    LIMIT least(greatest(p_limit, 1), 100)
+  )
+  SELECT
+    top.kind,
+    top.message_id,
+    top.conversation_id,
+    CASE WHEN top.kind = 'dm' THEN partner.display_name ELSE g.name END,
+    top.sender_id,
+    sender.display_name,
+    ts_headline(
+      'english',
+      top.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=1'
+    ),
+    top.created_at,
+    top.rank
+  FROM top
+  CROSS JOIN q
+  LEFT JOIN profiles sender ON sender.id = top.sender_id
+  LEFT JOIN profiles partner ON top.kind = 'dm' AND partner.id = top.conversation_id
+  LEFT JOIN groups g ON top.kind = 'group' AND g.id = top.conversation_id
+  ORDER BY top.rank DESC, top.created_at DESC;
+$$;
@@ -0,0 +1,68 @@
+/*
+  # Atomic message + attachments inserts
+
+  A message with several attachments used to be inserted row by row, so the
+  realtime INSERT for the message could reach the other side before its
+  `files` rows existed. These functions insert the message and all of its
+  files in one transaction.
+
+  1. Functions
+    - `send_message(p_receiver_id, p_content, p_message_type, p_reply_to_id, p_files)`
+    - `send_group_message(p_group_id, p_content, p_message_type, p_reply_to_id, p_files)`
+      - `p_files` is a JSON array of {file_name, file_type, file_size, firebase_url}
+      - Run as the caller, so the existing INSERT policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_receiver_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_reply_to_id uuid DEFAULT NULL,
+  p_files jsonb DEFAULT '[]'::jsonb
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages;
+BEGIN
+  INSERT INTO messages (sender_id, receiver_id, content, message_type, reply_to_id)
+  VALUES (auth.uid(), p_receiver_id, p_content, p_message_type, p_reply_to_id)
+  RETURNING * INTO v_message;
+
+  INSERT INTO files (message_id, file_name, file_type, file_size, firebase_url)
+  SELECT v_message.id, f.file_name, f.file_type, f.file_size, f.firebase_url
+  FROM jsonb_to_recordset(p_files) AS f(file_name text, file_type text, file_size bigint, firebase_url text);
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_group_message(
+  p_group_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_reply_to_id uuid DEFAULT NULL,
+  p_files jsonb DEFAULT '[]'::jsonb
+)
+RETURNS group_messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_message group_messages;
+BEGIN
+  INSERT INTO group_messages (group_id, sender_id, content, message_type, reply_to_id)
+  VALUES (p_group_id, auth.uid(), p_content, p_message_type, p_reply_to_id)
+  RETURNING * INTO v_message;
+
+  INSERT INTO group_files (message_id, file_name, file_type, file_size, firebase_url)
+  SELECT v_message.id, f.file_name, f.file_type, f.file_size, f.firebase_url
+  FROM jsonb_to_recordset(p_files) AS f(file_name text, file_type text, file_size bigint, firebase_url text);
+
+  RETURN v_message;
+END;
+$$;
@@ -0,0 +1,137 @@
+/*
+  # Shared media and files per conversation
+
+  1. Functions
+    - `file_category(p_file_type)` - buckets a MIME type into
+      'image', 'document' or 'other'
+    - `get_conversation_files(p_kind, p_conversation_id, p_category, p_sort, p_limit, p_offset)`
+      - Lists the files shared in one DM ('dm', partner id) or group
+        ('group', group id), newest first or largest first
+      - Skips messages the caller deleted for themselves
+      - Runs as the caller so the existing RLS policies decide visibility
+    - `get_conversation_links(p_kind, p_conversation_id, p_limit, p_offset)`
+      - Same scoping, but lists every http(s) URL found in text messages
+*/
+
+CREATE OR REPLACE FUNCTION file_category(p_file_type text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_file_type LIKE 'image/%' THEN 'image'
+    WHEN p_file_type LIKE 'text/%'
+      OR p_file_type IN ('application/pdf', 'application/msword', 'application/rtf')
+      OR p_file_type LIKE 'application/vnd.openxmlformats-officedocument.%'
+      OR p_file_type LIKE 'application/vnd.ms-%'
+      OR p_file_type LIKE 'application/vnd.oasis.opendocument.%'
+      THEN 'document'
+    ELSE 'other'
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversation_files(
+  p_kind text,
+  p_conversation_id uuid,
+  p_category text,
+  p_sort text DEFAULT 'date',
+  p_limit integer DEFAULT 30,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  message_id uuid,
+  file_name text,
+  file_type text,
+  file_size bigint,
+  firebase_url text,
+  sender_id uuid,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH shared AS (
+    SELECT f.id, m.id AS message_id, f.file_name, f.file_type, f.file_size, f.firebase_url, m.sender_id, m.created_at
+    FROM files f
+    JOIN messages m ON m.id = f.message_id
+    WHERE p_kind = 'dm'
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+      AND (
+        (m.sender_id = auth.uid() AND m.receiver_id = p_conversation_id)
+        OR (m.sender_id = p_conversation_id AND m.receiver_id = auth.uid())
+      )
+
+    UNION ALL
+
+    SELECT f.id, gm.id, f.file_name, f.file_type, f.file_size, f.firebase_url, gm.sender_id, gm.created_at
+    FROM group_files f
+    JOIN group_messages gm ON gm.id = f.message_id
+    WHERE p_kind = 'group'
+      AND gm.group_id = p_conversation_id
+      AND gm.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = gm.id AND h.user_id = auth.uid())
+  )
+  SELECT *
+  FROM shared
+  WHERE file_category(shared.file_type) = p_category
+  ORDER BY
+    CASE WHEN p_sort = 'size' THEN shared.file_size END DESC NULLS LAST,
+    shared.created_at DESC,
+    shared.id DESC
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION get_conversation_links(
+  p_kind text,
+  p_conversation_id uuid,
+  p_limit integer DEFAULT 30,
+  p_offset integer DEFAULT 0
+)
+RETURNS TABLE (
+  message_id uuid,
+  url text,
+  sender_id uuid,
+  created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH linked AS (
+    SELECT m.id AS message_id, m.content, m.sender_id, m.created_at
+    FROM messages m
+    WHERE p_kind = 'dm'
+      AND m.message_type = 'text'
+      AND m.content ~ 'https?://'
+      AND m.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+      AND (
+        (m.sender_id = auth.uid() AND m.receiver_id = p_conversation_id)
+        OR (m.sender_id = p_conversation_id AND m.receiver_id = auth.uid())
+      )
+
+    UNION ALL
+
+    SELECT gm.id, gm.content, gm.sender_id, gm.created_at
+    FROM group_messages gm
+    WHERE p_kind = 'group'
+      AND gm.group_id = p_conversation_id
+      AND gm.message_type = 'text'
+      AND gm.content ~ 'https?://'
+      AND gm.deleted_at IS NULL
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = gm.id AND h.user_id = auth.uid())
+  )
+  -- Trailing punctuation usually ends the sentence rather than the URL
+  SELECT linked.message_id, rtrim(match[1], '.,;:!?)'), linked.sender_id, linked.created_at
+  FROM linked
+  CROSS JOIN LATERAL regexp_matches(linked.content, '(https?://[^\s<>"]+)', 'g') AS match
+  ORDER BY linked.created_at DESC, linked.message_id DESC
+  LIMIT least(greatest(p_limit, 1), 100)
+  OFFSET greatest(p_offset, 0);
+$$;
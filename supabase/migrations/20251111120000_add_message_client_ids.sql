@@ -0,0 +1,99 @@
+/*
+  # Client-generated message IDs
+
+  Messages queued in the client outbox can be retried after a request that
+  actually reached the server (e.g. the response was lost). A client id
+  generated once per queued message lets the send functions recognise the
+  retry and return the existing row instead of inserting a duplicate.
+
+  1. Modified Tables
+    - `messages`, `group_messages`
+      - `client_id` (uuid, nullable, unique per sender)
+
+  2. Functions
+    - `send_message` / `send_group_message` gain `p_client_id`; a repeated
+      call with the same id returns the original message and adds no files
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS client_id uuid;
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS client_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_sender_client
+  ON messages(sender_id, client_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_group_messages_sender_client
+  ON group_messages(sender_id, client_id);
+
+DROP FUNCTION IF EXISTS send_message(uuid, text, text, uuid, jsonb);
+DROP FUNCTION IF EXISTS send_group_message(uuid, text, text, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION send_message(
+  p_receiver_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_reply_to_id uuid DEFAULT NULL,
+  p_files jsonb DEFAULT '[]'::jsonb,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_message messages;
+BEGIN
+  INSERT INTO messages (sender_id, receiver_id, content, message_type, reply_to_id, client_id)
+  VALUES (auth.uid(), p_receiver_id, p_content, p_message_type, p_reply_to_id, p_client_id)
+  ON CONFLICT (sender_id, client_id) DO NOTHING
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_message
+    FROM messages
+    WHERE sender_id = auth.uid() AND client_id = p_client_id;
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO files (message_id, file_name, file_type, file_size, firebase_url)
+  SELECT v_message.id, f.file_name, f.file_type, f.file_size, f.firebase_url
+  FROM jsonb_to_recordset(p_files) AS f(file_name text, file_type text, file_size bigint, firebase_url text);
+
+  RETURN v_message;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_group_message(
+  p_group_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_reply_to_id uuid DEFAULT NULL,
+  p_files jsonb DEFAULT '[]'::jsonb,
+  p_client_id uuid DEFAULT NULL
+)
+RETURNS group_messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_message group_messages;
+BEGIN
+  INSERT INTO group_messages (group_id, sender_id, content, message_type, reply_to_id, client_id)
+  VALUES (p_group_id, auth.uid(), p_content, p_message_type, p_reply_to_id, p_client_id)
+  ON CONFLICT (sender_id, client_id) DO NOTHING
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_message
+    FROM group_messages
+    WHERE sender_id = auth.uid() AND client_id = p_client_id;
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO group_files (message_id, file_name, file_type, file_size, firebase_url)
+  SELECT v_message.id, f.file_name, f.file_type, f.file_size, f.firebase_url
+  FROM jsonb_to_recordset(p_files) AS f(file_name text, file_type text, file_size bigint, firebase_url text);
+
+  RETURN v_message;
+END;
+$$;
@@ -0,0 +1,88 @@
+/*
+  # Direct conversation summaries
+
+  The chat sidebar needs every other user together with the unread count
+  and latest message of the DM with them. Fetching those per user meant two
+  queries per profile on every load.
+
+  1. Functions
+    - `get_direct_conversations(p_partner_id)` - one row per other profile
+      with `unread_count` and the `last_message_*` columns (NULL when the
+      two have never talked), in a single round trip
+      - Pass `p_partner_id` to refresh just one conversation
+      - Skips messages the caller deleted for themselves
+      - Runs as the caller so the existing RLS policies decide visibility
+*/
+
+CREATE OR REPLACE FUNCTION get_direct_conversations(p_partner_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  display_name text,
+  avatar_url text,
+  bio text,
+  online_status boolean,
+  last_seen timestamptz,
+  unread_count bigint,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.email,
+    p.display_name,
+    p.avatar_url,
+    p.bio,
+    p.online_status,
+    p.last_seen,
+    unread.count,
+    last_message.content,
+    last_message.message_type,
+    last_message.sender_id,
+    last_message.created_at
+  FROM profiles p
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM messages m
+    WHERE m.sender_id = p.id
+      AND m.receiver_id = auth.uid()
+      AND m.read = false
+  ) unread
+  -- Latest of each direction separately so both halves use the
+  -- conversation page index instead of sorting the whole DM
+  LEFT JOIN LATERAL (
+    SELECT *
+    FROM (
+      (
+        SELECT m.id, m.content, m.message_type, m.sender_id, m.created_at
+        FROM messages m
+        WHERE m.sender_id = auth.uid()
+          AND m.receiver_id = p.id
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+      UNION ALL
+      (
+        SELECT m.id, m.content, m.message_type, m.sender_id, m.created_at
+        FROM messages m
+        WHERE m.sender_id = p.id
+          AND m.receiver_id = auth.uid()
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+    ) latest
+    ORDER BY latest.created_at DESC, latest.id DESC
+    LIMIT 1
+  ) last_message ON true
+  WHERE p.id <> auth.uid()
+    AND (p_partner_id IS NULL OR p.id = p_partner_id);
+$$;
@@ -0,0 +1,123 @@
+/*
+  # Group conversation summaries
+
+  The group sidebar used to make five queries per group (member count,
+  last message, its sender, last_read_at and unread count) on every load.
+
+  1. Functions
+    - `get_group_conversations(p_group_id)` - one row per group the caller
+      belongs to with the id of their `group_members` row (`membership_id`),
+      `member_count`, `unread_count` and the `last_message_*`
+      columns including the sender's display name (NULL when the group has
+      no messages yet), in a single round trip
+      - Unread means messages from others since the caller's `last_read_at`,
+        or all of them if the caller never opened the group
+      - Pass `p_group_id` to refresh just one group
+      - Skips messages the caller deleted for themselves
+      - Runs as the caller so the existing RLS policies decide visibility
+    - `mark_group_read(p_group_id)` - sets the caller's `last_read_at` to the
+      server's `now()`
+
+  2. Security
+    - Clients can no longer write `group_members.last_read_at` themselves,
+      since unread counts and read receipts depend on it; it is only set
+      through `mark_group_read`
+*/
+
+CREATE OR REPLACE FUNCTION get_group_conversations(p_group_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  avatar_url text,
+  created_by uuid,
+  created_at timestamptz,
+  membership_id uuid,
+  member_count bigint,
+  unread_count bigint,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_sender_name text,
+  last_message_created_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.avatar_url,
+    g.created_by,
+    g.created_at,
+    me.id,
+    members.count,
+    unread.count,
+    last_message.content,
+    last_message.message_type,
+    last_message.sender_id,
+    sender.display_name,
+    last_message.created_at
+  FROM group_members me
+  JOIN groups g ON g.id = me.group_id
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM group_members gm
+    WHERE gm.group_id = g.id
+  ) members
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND m.sender_id <> auth.uid()
+      AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+  ) unread
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.message_type, m.sender_id, m.created_at
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN profiles sender ON sender.id = last_message.sender_id
+  WHERE me.user_id = auth.uid()
+    AND (p_group_id IS NULL OR g.id = p_group_id);
+$$;
+
+CREATE OR REPLACE FUNCTION mark_group_read(p_group_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE group_members
+  SET last_read_at = now()
+  WHERE group_id = p_group_id
+    AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_group_read_marker()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    (TG_OP = 'INSERT' AND NEW.last_read_at IS NOT NULL)
+    OR (TG_OP = 'UPDATE' AND NEW.last_read_at IS DISTINCT FROM OLD.last_read_at)
+  ) THEN
+    RAISE EXCEPTION 'Groups can only be marked as read through mark_group_read';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER group_members_protect_read_marker
+  BEFORE INSERT OR UPDATE ON group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_group_read_marker();
@@ -0,0 +1,72 @@
+/*
+  # Sent, delivered and read receipts for direct messages
+
+  1. Modified Tables
+    - `messages`
+      - `delivered_at` (timestamptz, nullable) - when the message reached
+        the receiver's client
+      - `read_at` existed but was never written; it is now set together
+        with `read`
+
+  2. Functions
+    - `mark_messages_delivered(p_message_ids)` - stamps the caller's
+      undelivered incoming messages, or only `p_message_ids` when given
+    - `mark_messages_read(p_sender_id)` - marks the caller's unread messages
+      from one sender as read, stamping `read_at` (and `delivered_at` if the
+      delivery receipt never made it)
+
+  3. Security
+    - Receipts now change only through the functions above so both
+      timestamps come from the server clock. The receiver's direct UPDATE
+      policy is dropped; messages have no client-writable columns left.
+*/
+
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS delivered_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_messages_undelivered
+  ON messages(receiver_id)
+  WHERE delivered_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can update messages they received" ON messages;
+
+CREATE OR REPLACE FUNCTION mark_messages_delivered(p_message_ids uuid[] DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE messages
+  SET delivered_at = now()
+  WHERE receiver_id = auth.uid()
+    AND delivered_at IS NULL
+    AND (p_message_ids IS NULL OR id = ANY (p_message_ids));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_messages_read(p_sender_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE messages
+  SET read = true,
+      read_at = now(),
+      delivered_at = coalesce(delivered_at, now())
+  WHERE sender_id = p_sender_id
+    AND receiver_id = auth.uid()
+    AND read = false;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,48 @@
+/*
+  # Presence written by the socket server only
+
+  Presence used to be written by each browser tab to both Firebase and
+  `profiles.online_status`; only the Firebase copy was cleared when a tab
+  died, so the sidebar showed users online long after they left. The
+  socket server now tracks every connection and is the only writer.
+
+  1. Modified Tables
+    - `profiles`
+      - `presence` (text, 'online' | 'away' | 'offline', default 'offline')
+      - `online_status` is kept in sync (true unless offline) for older readers
+      - `last_seen` is the time of the last presence change
+
+  2. Security
+    - Clients can no longer change `presence`, `online_status` or
+      `last_seen` on their own profile; the server uses the service role
+
+  3. Data
+    - Every profile starts offline; the stored flags were unreliable
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS presence text NOT NULL DEFAULT 'offline'
+  CHECK (presence IN ('online', 'away', 'offline'));
+
+UPDATE profiles SET online_status = false WHERE online_status;
+
+CREATE OR REPLACE FUNCTION protect_profile_presence()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user = 'authenticated' AND (
+    NEW.presence IS DISTINCT FROM OLD.presence
+    OR NEW.online_status IS DISTINCT FROM OLD.online_status
+    OR NEW.last_seen IS DISTINCT FROM OLD.last_seen
+  ) THEN
+    RAISE EXCEPTION 'Presence is managed by the server';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER profiles_protect_presence
+  BEFORE UPDATE ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_presence();
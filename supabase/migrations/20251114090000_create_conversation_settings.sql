@@ -0,0 +1,225 @@
+/*
+  # Per-user conversation settings: pin, mute and archive
+
+  1. New Tables
+    - `conversation_settings`
+      - `user_id` (uuid, references profiles)
+      - `conversation_type` (text, 'dm' | 'group')
+      - `conversation_id` (uuid) - the other user for DMs, the group otherwise
+      - `pinned_at` (timestamptz, nullable) - pinned conversations sort
+        first, in the order they were pinned
+      - `muted_until` (timestamptz, nullable) - no notifications and no
+        unread bump before this time
+      - `archived_at` (timestamptz, nullable) - hidden from the sidebar until
+        a message newer than this arrives
+      - `updated_at` (timestamptz)
+      - primary key (user_id, conversation_type, conversation_id)
+
+  2. Functions
+    - `get_direct_conversations` and `get_group_conversations` also return
+      the caller's `pinned_at`, `muted_until` and `archived_at` for each
+      conversation. The return type changed, so both are recreated.
+
+  3. Security
+    - Enable RLS; users can only see and change their own settings
+
+  4. Realtime
+    - Publish the table so the user's other tabs pick up changes
+*/
+
+CREATE TABLE IF NOT EXISTS conversation_settings (
+  user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  conversation_type text NOT NULL CHECK (conversation_type IN ('dm', 'group')),
+  conversation_id uuid NOT NULL,
+  pinned_at timestamptz,
+  muted_until timestamptz,
+  archived_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, conversation_type, conversation_id)
+);
+
+ALTER TABLE conversation_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own conversation settings"
+  ON conversation_settings FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own conversation settings"
+  ON conversation_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own conversation settings"
+  ON conversation_settings FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own conversation settings"
+  ON conversation_settings FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+ALTER PUBLICATION supabase_realtime ADD TABLE conversation_settings;
+
+DROP FUNCTION IF EXISTS get_direct_conversations(uuid);
+
+CREATE FUNCTION get_direct_conversations(p_partner_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  email text,
+  display_name text,
+  avatar_url text,
+  bio text,
+  online_status boolean,
+  last_seen timestamptz,
+  unread_count bigint,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_created_at timestamptz,
+  pinned_at timestamptz,
+  muted_until timestamptz,
+  archived_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    p.id,
+    p.email,
+    p.display_name,
+    p.avatar_url,
+    p.bio,
+    p.online_status,
+    p.last_seen,
+    unread.count,
+    last_message.content,
+    last_message.message_type,
+    last_message.sender_id,
+    last_message.created_at,
+    settings.pinned_at,
+    settings.muted_until,
+    settings.archived_at
+  FROM profiles p
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM messages m
+    WHERE m.sender_id = p.id
+      AND m.receiver_id = auth.uid()
+      AND m.read = false
+  ) unread
+  -- Latest of each direction separately so both halves use the
+  -- conversation page index instead of sorting the whole DM
+  LEFT JOIN LATERAL (
+    SELECT *
+    FROM (
+      (
+        SELECT m.id, m.content, m.message_type, m.sender_id, m.created_at
+        FROM messages m
+        WHERE m.sender_id = auth.uid()
+          AND m.receiver_id = p.id
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+      UNION ALL
+      (
+        SELECT m.id, m.content, m.message_type, m.sender_id, m.created_at
+        FROM messages m
+        WHERE m.sender_id = p.id
+          AND m.receiver_id = auth.uid()
+          AND NOT EXISTS (SELECT 1 FROM hidden_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+        ORDER BY m.created_at DESC, m.id DESC
+        LIMIT 1
+      )
+    ) latest
+    ORDER BY latest.created_at DESC, latest.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN conversation_settings settings
+    ON settings.user_id = auth.uid()
+    AND settings.conversation_type = 'dm'
+    AND settings.conversation_id = p.id
+  WHERE p.id <> auth.uid()
+    AND (p_partner_id IS NULL OR p.id = p_partner_id);
+$$;
+
+DROP FUNCTION IF EXISTS get_group_conversations(uuid);
+
+CREATE FUNCTION get_group_conversations(p_group_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  avatar_url text,
+  created_by uuid,
+  created_at timestamptz,
+  membership_id uuid,
+  member_count bigint,
+  unread_count bigint,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_sender_name text,
+  last_message_created_at timestamptz,
+  pinned_at timestamptz,
+  muted_until timestamptz,
+  archived_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.avatar_url,
+    g.created_by,
+    g.created_at,
+    me.id,
+    members.count,
+    unread.count,
+    last_message.content,
+    last_message.message_type,
+    last_message.sender_id,
+    sender.display_name,
+    last_message.created_at,
+    settings.pinned_at,
+    settings.muted_until,
+    settings.archived_at
+  FROM group_members me
+  JOIN groups g ON g.id = me.group_id
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM group_members gm
+    WHERE gm.group_id = g.id
+  ) members
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND m.sender_id <> auth.uid()
+      AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+  ) unread
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.message_type, m.sender_id, m.created_at
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN profiles sender ON sender.id = last_message.sender_id
+  LEFT JOIN conversation_settings settings
+    ON settings.user_id = auth.uid()
+    AND settings.conversation_type = 'group'
+    AND settings.conversation_id = g.id
+  WHERE me.user_id = auth.uid()
+    AND (p_group_id IS NULL OR g.id = p_group_id);
+$$;
@@ -0,0 +1,172 @@
+/*
+  # Blocking and reporting users
+
+  1. New Tables
+    - `blocked_users`
+      - `blocker_id` (uuid, references profiles)
+      - `blocked_id` (uuid, references profiles)
+      - `created_at` (timestamptz)
+      - primary key (blocker_id, blocked_id)
+    - `reports` - moderation queue, worked through with the service role
+      - `id` (uuid, primary key)
+      - `reporter_id` (uuid, references profiles)
+      - `reported_user_id` (uuid, references profiles)
+      - `message_kind` ('dm' | 'group', nullable) and `message_id` (uuid,
+        nullable) - the reported message, if any
+      - `message_content` (text, nullable) - copy of the message at report
+        time, kept even if the message is later edited or deleted
+      - `reason` (text, 'spam' | 'harassment' | 'inappropriate' | 'other')
+      - `details` (text)
+      - `status` (text, 'open' | 'reviewed' | 'dismissed', default 'open')
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `is_blocked_between(p_user_id)` - whether the caller and `p_user_id`
+      have blocked each other in either direction. SECURITY DEFINER so the
+      blocked side can be checked without seeing the blocker's rows.
+    - `report_user(p_reported_user_id, p_reason, p_details, p_message_kind, p_message_id)`
+      - files a report; a message must be one the caller can see and sent
+        by the reported user
+
+  3. Security
+    - Users see and change only the blocks they made; the blocked user is
+      not told
+    - DMs cannot be sent in either direction while a block exists
+    - Messages from a user the caller blocked are hidden from the caller,
+      which also keeps them out of realtime, search and the sidebar
+    - Reports can only be created through `report_user`; reporters can read
+      their own reports
+*/
+
+CREATE TABLE IF NOT EXISTS blocked_users (
+  blocker_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  blocked_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CHECK (blocker_id <> blocked_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocked_users_blocked ON blocked_users(blocked_id);
+
+ALTER TABLE blocked_users ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own blocks"
+  ON blocked_users FOR SELECT
+  TO authenticated
+  USING (blocker_id = auth.uid());
+
+CREATE POLICY "Users can block others"
+  ON blocked_users FOR INSERT
+  TO authenticated
+  WITH CHECK (blocker_id = auth.uid());
+
+CREATE POLICY "Users can unblock"
+  ON blocked_users FOR DELETE
+  TO authenticated
+  USING (blocker_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION is_blocked_between(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM blocked_users
+    WHERE (blocker_id = auth.uid() AND blocked_id = p_user_id)
+       OR (blocker_id = p_user_id AND blocked_id = auth.uid())
+  );
+$$;
+
+DROP POLICY IF EXISTS "Users can send messages" ON messages;
+
+CREATE POLICY "Users can send messages"
+  ON messages FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = sender_id AND NOT is_blocked_between(receiver_id));
+
+DROP POLICY IF EXISTS "Users can view their messages" ON messages;
+
+CREATE POLICY "Users can view their messages"
+  ON messages FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = sender_id
+    OR (
+      auth.uid() = receiver_id
+      AND NOT EXISTS (
+        SELECT 1 FROM blocked_users
+        WHERE blocker_id = auth.uid() AND blocked_id = messages.sender_id
+      )
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reporter_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  reported_user_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  message_kind text CHECK (message_kind IN ('dm', 'group')),
+  message_id uuid,
+  message_content text,
+  reason text NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'other')),
+  details text DEFAULT '' CHECK (char_length(details) <= 1000),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewed', 'dismissed')),
+  created_at timestamptz DEFAULT now(),
+  CHECK ((message_kind IS NULL) = (message_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_reports_open ON reports(created_at) WHERE status = 'open';
+
+ALTER TABLE reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own reports"
+  ON reports FOR SELECT
+  TO authenticated
+  USING (reporter_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION report_user(
+  p_reported_user_id uuid,
+  p_reason text,
+  p_details text DEFAULT '',
+  p_message_kind text DEFAULT NULL,
+  p_message_id uuid DEFAULT NULL
+)
+RETURNS reports
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_content text;
+  v_report reports;
+BEGIN
+  IF p_reported_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot report yourself';
+  END IF;
+
+  IF p_message_kind = 'dm' THEN
+    SELECT m.content INTO v_content
+    FROM messages m
+    WHERE m.id = p_message_id
+      AND m.sender_id = p_reported_user_id
+      AND m.receiver_id = auth.uid();
+  ELSIF p_message_kind = 'group' THEN
+    SELECT m.content INTO v_content
+    FROM group_messages m
+    WHERE m.id = p_message_id
+      AND m.sender_id = p_reported_user_id
+      AND is_group_member(m.group_id);
+  END IF;
+
+  IF p_message_kind IS NOT NULL AND NOT FOUND THEN
+    RAISE EXCEPTION 'Message not found';
+  END IF;
+
+  INSERT INTO reports (reporter_id, reported_user_id, message_kind, message_id, message_content, reason, details)
+  VALUES (auth.uid(), p_reported_user_id, p_message_kind, p_message_id, v_content, p_reason, coalesce(p_details, ''))
+  RETURNING * INTO v_report;
+
+  RETURN v_report;
+END;
+$$;
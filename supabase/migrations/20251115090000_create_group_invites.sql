@@ -0,0 +1,153 @@
+/*
+  # Group invite links
+
+  Admins could only add existing profiles one at a time. Invite links let
+  anyone with the link join, optionally limited in time and number of uses.
+
+  1. New Tables
+    - `group_invites`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references groups)
+      - `token` (text, unique) - the secret part of the link
+      - `created_by` (uuid, references profiles)
+      - `expires_at` (timestamptz, nullable) - no expiry when NULL
+      - `max_uses` (integer, nullable) - unlimited when NULL
+      - `use_count` (integer) - members who joined through the link
+      - `revoked_at` (timestamptz, nullable)
+      - `created_at` (timestamptz)
+
+  2. Functions
+    - `get_group_invite(p_token)` - preview of the group behind a link with
+      its member count, whether the caller already belongs to it and the
+      link's status ('valid' | 'expired' | 'revoked' | 'used_up'); no row for
+      an unknown token
+    - `join_group_with_invite(p_token)` - adds the caller as a member and
+      counts the use, or does nothing if they already are one; returns the
+      group id. Both are SECURITY DEFINER since the caller is not a member yet.
+    - `revoke_group_invite(p_invite_id)` - sets `revoked_at` for a group
+      admin. Keeping a revoked link revoked is a no-op.
+
+  3. Security
+    - Enable RLS; only group admins can list, create and revoke links
+    - There is no UPDATE policy, so revoking is the only change a link can
+      get and its limits and use count can't be rewritten
+*/
+
+CREATE TABLE IF NOT EXISTS group_invites (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  expires_at timestamptz,
+  max_uses integer CHECK (max_uses > 0),
+  use_count integer NOT NULL DEFAULT 0,
+  revoked_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_invites_group ON group_invites(group_id, created_at DESC);
+
+ALTER TABLE group_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view group invites"
+  ON group_invites FOR SELECT
+  TO authenticated
+  USING (is_group_admin(group_id));
+
+CREATE POLICY "Admins can create group invites"
+  ON group_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND is_group_admin(group_id) AND use_count = 0);
+
+CREATE OR REPLACE FUNCTION revoke_group_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE group_invites
+  SET revoked_at = coalesce(revoked_at, now())
+  WHERE id = p_invite_id AND is_group_admin(group_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite link not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_group_invite(p_token text)
+RETURNS TABLE (
+  group_id uuid,
+  name text,
+  description text,
+  avatar_url text,
+  member_count bigint,
+  is_member boolean,
+  status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.avatar_url,
+    (SELECT count(*) FROM group_members gm WHERE gm.group_id = g.id),
+    is_group_member(g.id),
+    CASE
+      WHEN i.revoked_at IS NOT NULL THEN 'revoked'
+      WHEN i.expires_at IS NOT NULL AND i.expires_at <= now() THEN 'expired'
+      WHEN i.max_uses IS NOT NULL AND i.use_count >= i.max_uses THEN 'used_up'
+      ELSE 'valid'
+    END
+  FROM group_invites i
+  JOIN groups g ON g.id = i.group_id
+  WHERE i.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION join_group_with_invite(p_token text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invite group_invites;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Locked so concurrent joins can't exceed max_uses
+  SELECT * INTO v_invite FROM group_invites WHERE token = p_token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite link not found';
+  END IF;
+
+  IF is_group_member(v_invite.group_id) THEN
+    RETURN v_invite.group_id;
+  END IF;
+
+  IF v_invite.revoked_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This invite link has been revoked';
+  END IF;
+  IF v_invite.expires_at IS NOT NULL AND v_invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'This invite link has expired';
+  END IF;
+  IF v_invite.max_uses IS NOT NULL AND v_invite.use_count >= v_invite.max_uses THEN
+    RAISE EXCEPTION 'This invite link has reached its limit';
+  END IF;
+
+  INSERT INTO group_members (group_id, user_id, role)
+  VALUES (v_invite.group_id, auth.uid(), 'member');
+
+  UPDATE group_invites SET use_count = use_count + 1 WHERE id = v_invite.id;
+
+  RETURN v_invite.group_id;
+END;
+$$;
@@ -0,0 +1,414 @@
+/*
+  # Group roles, permissions and events
+
+  Admin checks lived in `GroupDetails` and "keep at least one admin" was
+  only an alert, so any member could change the group through the API.
+  Groups now have an owner, admins and members, and one permission set
+  drives both the policies below and the UI. Changes to a group are
+  recorded by triggers as events, which show up in the chat and make up
+  the admins' audit log.
+
+  1. Modified Tables
+    - `group_members.role` is 'owner', 'admin' or 'member'; every group has
+      exactly one owner, checked at the end of each transaction so
+      ownership can be handed over. Existing groups are owned by their
+      creator, or else their longest-standing admin or member.
+    - `groups.only_admins_can_post` (boolean, default false)
+
+  2. New Tables
+    - `group_events`
+      - `id` (uuid, primary key)
+      - `group_id` (uuid, references groups)
+      - `actor_id` (uuid, nullable) - who made the change
+      - `event_type` (text) - 'created' | 'renamed' | 'description_changed'
+        | 'avatar_changed' | 'posting_changed' | 'member_added'
+        | 'member_joined' | 'member_removed' | 'member_left' | 'role_changed'
+      - `target_user_id` (uuid, nullable) - the member affected
+      - `details` (jsonb) - names at the time of the change plus old and
+        new values
+      - `created_at` (timestamptz)
+
+  3. Functions
+    - `group_permissions(p_group_id)` - the caller's permissions, NULL for
+      non-members:
+
+        permission       owner  admin  member
+        edit_info          x      x
+        add_members        x      x
+        remove_members     x      x
+        manage_admins      x
+        manage_invites     x      x
+        view_audit_log     x      x
+        post               x      x      x (unless only_admins_can_post)
+
+    - `has_group_permission(p_group_id, p_permission)`
+    - `can_manage_member(p_group_id, p_role)` - whether the caller may remove
+      or change the role of a member with that role; nobody can remove the
+      owner, and admins need `manage_admins`
+    - `create_group(p_name, p_description, p_member_ids)` - creates the
+      group with the caller as owner in one transaction
+    - `is_group_admin` now includes the owner
+    - `revoke_group_invite` checks `manage_invites`
+
+  4. Security
+    - Groups can only be created through `create_group`
+    - Editing the group, adding, removing and promoting members, invite
+      links and posting all check `has_group_permission`
+    - Role changes need `manage_admins`, enforced by trigger
+    - Members with `view_audit_log` can read all of their group's events,
+      other members only those since they joined; only triggers write them
+*/
+
+-- Roles
+
+ALTER TABLE group_members DROP CONSTRAINT IF EXISTS group_members_role_check;
+ALTER TABLE group_members
+  ADD CONSTRAINT group_members_role_check CHECK (role IN ('owner', 'admin', 'member'));
+
+ALTER TABLE groups ADD COLUMN IF NOT EXISTS only_admins_can_post boolean NOT NULL DEFAULT false;
+
+CREATE OR REPLACE FUNCTION group_permissions(p_group_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE gm.role
+    WHEN 'owner' THEN ARRAY['edit_info', 'add_members', 'remove_members', 'manage_admins', 'manage_invites', 'view_audit_log', 'post']
+    WHEN 'admin' THEN ARRAY['edit_info', 'add_members', 'remove_members', 'manage_invites', 'view_audit_log', 'post']
+    ELSE CASE WHEN g.only_admins_can_post THEN ARRAY[]::text[] ELSE ARRAY['post'] END
+  END
+  FROM group_members gm
+  JOIN groups g ON g.id = gm.group_id
+  WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION has_group_permission(p_group_id uuid, p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(p_permission = ANY(group_permissions(p_group_id)), false);
+$$;
+
+CREATE OR REPLACE FUNCTION can_manage_member(p_group_id uuid, p_role text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_role
+    WHEN 'member' THEN has_group_permission(p_group_id, 'remove_members')
+    WHEN 'admin' THEN has_group_permission(p_group_id, 'manage_admins')
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_group_admin(p_group_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM group_members
+    WHERE group_id = p_group_id AND user_id = auth.uid() AND role IN ('owner', 'admin')
+  );
+$$;
+
+-- Only enforced for clients so the backfill below and the service role can fix up roles
+CREATE OR REPLACE FUNCTION protect_group_member_role()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.group_id IS DISTINCT FROM OLD.group_id OR NEW.user_id IS DISTINCT FROM OLD.user_id THEN
+    RAISE EXCEPTION 'Membership group and user cannot be changed';
+  END IF;
+  IF current_user = 'authenticated'
+    AND NEW.role IS DISTINCT FROM OLD.role
+    AND NOT has_group_permission(OLD.group_id, 'manage_admins') THEN
+    RAISE EXCEPTION 'Only the group owner can change member roles';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+UPDATE group_members gm
+SET role = 'owner'
+FROM (
+  SELECT DISTINCT ON (m.group_id) m.id
+  FROM group_members m
+  JOIN groups g ON g.id = m.group_id
+  ORDER BY m.group_id, (m.user_id = g.created_by) DESC, (m.role = 'admin') DESC, m.joined_at
+) picked
+WHERE gm.id = picked.id;
+
+-- Deferred so an owner can promote a successor and step down in one transaction
+CREATE OR REPLACE FUNCTION ensure_group_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group_id uuid := COALESCE(NEW.group_id, OLD.group_id);
+BEGIN
+  -- Deleting a group takes its members with it
+  IF EXISTS (SELECT 1 FROM groups WHERE id = v_group_id)
+    AND (SELECT count(*) FROM group_members WHERE group_id = v_group_id AND role = 'owner') <> 1 THEN
+    RAISE EXCEPTION 'A group must have exactly one owner';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER group_members_ensure_owner
+  AFTER INSERT OR UPDATE OF role OR DELETE ON group_members
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION ensure_group_owner();
+
+CREATE OR REPLACE FUNCTION create_group(p_name text, p_description text, p_member_ids uuid[])
+RETURNS groups
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_group groups;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO groups (name, description, created_by)
+  VALUES (p_name, p_description, auth.uid())
+  RETURNING * INTO v_group;
+
+  INSERT INTO group_members (group_id, user_id, role)
+  VALUES (v_group.id, auth.uid(), 'owner');
+
+  INSERT INTO group_members (group_id, user_id, role)
+  SELECT DISTINCT v_group.id, member_id, 'member'
+  FROM unnest(p_member_ids) AS member_id
+  WHERE member_id <> auth.uid();
+
+  RETURN v_group;
+END;
+$$;
+
+-- Policies
+
+DROP POLICY IF EXISTS "Users can create groups" ON groups;
+
+DROP POLICY IF EXISTS "Admins can update groups" ON groups;
+CREATE POLICY "Members with edit_info can update groups"
+  ON groups FOR UPDATE
+  TO authenticated
+  USING (has_group_permission(id, 'edit_info'))
+  WITH CHECK (has_group_permission(id, 'edit_info'));
+
+-- New members always start as members; promoting them is a separate step
+DROP POLICY IF EXISTS "Admins and creators can add members" ON group_members;
+CREATE POLICY "Members with add_members can add members"
+  ON group_members FOR INSERT
+  TO authenticated
+  WITH CHECK (has_group_permission(group_id, 'add_members') AND role = 'member');
+
+DROP POLICY IF EXISTS "Admins and the member can update membership" ON group_members;
+CREATE POLICY "The owner and the member can update membership"
+  ON group_members FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid() OR has_group_permission(group_id, 'manage_admins'))
+  WITH CHECK (user_id = auth.uid() OR has_group_permission(group_id, 'manage_admins'));
+
+DROP POLICY IF EXISTS "Admins can remove members" ON group_members;
+CREATE POLICY "Members with remove_members can remove members"
+  ON group_members FOR DELETE
+  TO authenticated
+  USING (can_manage_member(group_id, role));
+
+DROP POLICY IF EXISTS "Members can send group messages" ON group_messages;
+CREATE POLICY "Members with post can send group messages"
+  ON group_messages FOR INSERT
+  TO authenticated
+  WITH CHECK (sender_id = auth.uid() AND has_group_permission(group_id, 'post'));
+
+DROP POLICY IF EXISTS "Admins can view group invites" ON group_invites;
+CREATE POLICY "Members with manage_invites can view group invites"
+  ON group_invites FOR SELECT
+  TO authenticated
+  USING (has_group_permission(group_id, 'manage_invites'));
+
+DROP POLICY IF EXISTS "Admins can create group invites" ON group_invites;
+CREATE POLICY "Members with manage_invites can create group invites"
+  ON group_invites FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid() AND has_group_permission(group_id, 'manage_invites') AND use_count = 0);
+
+CREATE OR REPLACE FUNCTION revoke_group_invite(p_invite_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE group_invites
+  SET revoked_at = coalesce(revoked_at, now())
+  WHERE id = p_invite_id AND has_group_permission(group_id, 'manage_invites');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invite link not found';
+  END IF;
+END;
+$$;
+
+-- Events
+
+CREATE TABLE IF NOT EXISTS group_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  group_id uuid NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN (
+    'created', 'renamed', 'description_changed', 'avatar_changed', 'posting_changed',
+    'member_added', 'member_joined', 'member_removed', 'member_left', 'role_changed'
+  )),
+  target_user_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_group_events_group_created ON group_events(group_id, created_at DESC);
+
+ALTER TABLE group_events ENABLE ROW LEVEL SECURITY;
+
+-- The full history is the audit log. Other members get the changes made
+-- since they joined, which is what the chat shows them inline.
+CREATE POLICY "Audit log viewers can view all group events"
+  ON group_events FOR SELECT
+  TO authenticated
+  USING (has_group_permission(group_id, 'view_audit_log'));
+
+CREATE POLICY "Members can view group events since they joined"
+  ON group_events FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM group_members m
+      WHERE m.group_id = group_events.group_id
+        AND m.user_id = auth.uid()
+        AND m.joined_at <= group_events.created_at
+    )
+  );
+
+-- Names are copied into the event so it still reads right after a rename or
+-- once the member has left. clock_timestamp() keeps the events of one
+-- transaction (e.g. creating a group with members) in order.
+CREATE OR REPLACE FUNCTION log_group_event(
+  p_group_id uuid,
+  p_event_type text,
+  p_target_user_id uuid DEFAULT NULL,
+  p_details jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO group_events (group_id, actor_id, event_type, target_user_id, details, created_at)
+  VALUES (
+    p_group_id,
+    auth.uid(),
+    p_event_type,
+    p_target_user_id,
+    p_details || jsonb_strip_nulls(jsonb_build_object(
+      'actor_name', (SELECT display_name FROM profiles WHERE id = auth.uid()),
+      'target_name', (SELECT display_name FROM profiles WHERE id = p_target_user_id)
+    )),
+    clock_timestamp()
+  );
+END;
+$$;
+
+-- Supabase grants EXECUTE to anon and authenticated directly, so revoking it
+-- from PUBLIC alone would still let clients forge events over RPC. The
+-- triggers below are SECURITY DEFINER and keep calling it as the owner.
+REVOKE EXECUTE ON FUNCTION log_group_event(uuid, text, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_group_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM log_group_event(NEW.id, 'created', NULL, jsonb_build_object('name', NEW.name));
+    RETURN NULL;
+  END IF;
+
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    PERFORM log_group_event(NEW.id, 'renamed', NULL, jsonb_build_object('old_name', OLD.name, 'name', NEW.name));
+  END IF;
+  IF NEW.description IS DISTINCT FROM OLD.description THEN
+    PERFORM log_group_event(NEW.id, 'description_changed');
+  END IF;
+  IF NEW.avatar_url IS DISTINCT FROM OLD.avatar_url THEN
+    PERFORM log_group_event(NEW.id, 'avatar_changed');
+  END IF;
+  IF NEW.only_admins_can_post IS DISTINCT FROM OLD.only_admins_can_post THEN
+    PERFORM log_group_event(NEW.id, 'posting_changed', NULL, jsonb_build_object('only_admins_can_post', NEW.only_admins_can_post));
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER groups_record_change
+  AFTER INSERT OR UPDATE ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION record_group_change();
+
+CREATE OR REPLACE FUNCTION record_group_member_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    -- The owner's row is part of 'created'
+    IF NEW.role <> 'owner' THEN
+      PERFORM log_group_event(
+        NEW.group_id,
+        CASE WHEN NEW.user_id = auth.uid() THEN 'member_joined' ELSE 'member_added' END,
+        NEW.user_id
+      );
+    END IF;
+  ELSIF TG_OP = 'UPDATE' THEN
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+      PERFORM log_group_event(NEW.group_id, 'role_changed', NEW.user_id, jsonb_build_object('old_role', OLD.role, 'role', NEW.role));
+    END IF;
+  ELSIF EXISTS (SELECT 1 FROM groups WHERE id = OLD.group_id) THEN
+    PERFORM log_group_event(
+      OLD.group_id,
+      CASE WHEN OLD.user_id = auth.uid() THEN 'member_left' ELSE 'member_removed' END,
+      OLD.user_id
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER group_members_record_change
+  AFTER INSERT OR UPDATE OR DELETE ON group_members
+  FOR EACH ROW
+  EXECUTE FUNCTION record_group_member_change();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE group_events;
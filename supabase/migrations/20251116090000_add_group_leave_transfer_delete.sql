@@ -0,0 +1,163 @@
+/*
+  # Leaving, handing over and deleting groups
+
+  Members could only be removed by an admin, and groups could neither be
+  deleted nor given a new owner.
+
+  1. Functions
+    - `group_permissions(p_group_id)` - the owner also gets
+      `transfer_ownership` and `delete_group`
+    - `transfer_group_ownership(p_group_id, p_new_owner_id)` - makes another
+      member the owner; the previous owner stays on as an admin
+    - `leave_group(p_group_id, p_successor_id)` - removes the caller from the
+      group. The owner has to name a successor, who takes over first.
+    - `delete_group(p_group_id)` - deletes the group with its members,
+      messages, files, invites and events, plus everyone's settings for it.
+      Its files and avatar are queued in `pending_storage_deletions` for the
+      socket server to remove from Firebase Storage, leaving out files also
+      attached in other groups and avatars outside the group's own folder.
+    - `check_group_avatar()` - trigger keeping `groups.avatar_url` inside
+      the group's folder
+
+  2. Security
+    - Members can delete their own membership. The owner can't leave without
+      a successor, since every group must keep exactly one owner.
+    - Only the owner can transfer ownership or delete the group
+    - Group avatars must be uploaded under `group_avatars/<group id>/`, so
+      deleting a group can only remove its own avatar from Storage
+*/
+
+CREATE OR REPLACE FUNCTION group_permissions(p_group_id uuid)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE gm.role
+    WHEN 'owner' THEN ARRAY[
+      'edit_info', 'add_members', 'remove_members', 'manage_admins', 'manage_invites', 'view_audit_log', 'post',
+      'transfer_ownership', 'delete_group'
+    ]
+    WHEN 'admin' THEN ARRAY['edit_info', 'add_members', 'remove_members', 'manage_invites', 'view_audit_log', 'post']
+    ELSE CASE WHEN g.only_admins_can_post THEN ARRAY[]::text[] ELSE ARRAY['post'] END
+  END
+  FROM group_members gm
+  JOIN groups g ON g.id = gm.group_id
+  WHERE gm.group_id = p_group_id AND gm.user_id = auth.uid();
+$$;
+
+DROP POLICY IF EXISTS "Members with remove_members can remove members" ON group_members;
+CREATE POLICY "Members can leave or be removed"
+  ON group_members FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid() OR can_manage_member(group_id, role));
+
+CREATE OR REPLACE FUNCTION check_group_avatar()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF coalesce(NEW.avatar_url, '') <> ''
+    AND (TG_OP = 'INSERT' OR NEW.avatar_url IS DISTINCT FROM OLD.avatar_url)
+    AND NOT coalesce(starts_with(storage_path_from_url(NEW.avatar_url), 'group_avatars/' || NEW.id || '/'), false)
+  THEN
+    RAISE EXCEPTION 'Group avatars must be uploaded to the group''s own folder';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER groups_check_avatar
+  BEFORE INSERT OR UPDATE OF avatar_url ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION check_group_avatar();
+
+-- Runs as the caller so the role trigger and policies apply as usual
+CREATE OR REPLACE FUNCTION transfer_group_ownership(p_group_id uuid, p_new_owner_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_group_permission(p_group_id, 'transfer_ownership') THEN
+    RAISE EXCEPTION 'Only the group owner can transfer ownership';
+  END IF;
+  IF p_new_owner_id = auth.uid() THEN
+    RAISE EXCEPTION 'You already own this group';
+  END IF;
+
+  -- Promote first: demoting ourselves would take away the right to do it
+  UPDATE group_members SET role = 'owner'
+  WHERE group_id = p_group_id AND user_id = p_new_owner_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The new owner must be a member of the group';
+  END IF;
+
+  UPDATE group_members SET role = 'admin'
+  WHERE group_id = p_group_id AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION leave_group(p_group_id uuid, p_successor_id uuid DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF has_group_permission(p_group_id, 'transfer_ownership') THEN
+    IF p_successor_id IS NULL THEN
+      RAISE EXCEPTION 'Choose a new owner before leaving the group';
+    END IF;
+    PERFORM transfer_group_ownership(p_group_id, p_successor_id);
+  END IF;
+
+  DELETE FROM group_members WHERE group_id = p_group_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a member of this group';
+  END IF;
+END;
+$$;
+
+-- SECURITY DEFINER to clear other members' settings for the group
+CREATE OR REPLACE FUNCTION delete_group(p_group_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_group_permission(p_group_id, 'delete_group') THEN
+    RAISE EXCEPTION 'Only the group owner can delete the group';
+  END IF;
+
+  -- Files also attached in another group stay
+  INSERT INTO pending_storage_deletions (path)
+  SELECT gf.storage_path
+  FROM group_files gf
+  JOIN group_messages gm ON gm.id = gf.message_id
+  WHERE gm.group_id = p_group_id
+    AND gf.storage_path IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1
+      FROM group_files o
+      JOIN group_messages om ON om.id = o.message_id
+      WHERE o.storage_path = gf.storage_path AND om.group_id <> p_group_id
+    )
+  UNION
+  -- Avatars set before check_group_avatar existed may point anywhere
+  SELECT a.path
+  FROM groups g, storage_path_from_url(g.avatar_url) AS a(path)
+  WHERE g.id = p_group_id AND starts_with(a.path, 'group_avatars/' || p_group_id || '/');
+
+  DELETE FROM conversation_settings
+  WHERE conversation_type = 'group' AND conversation_id = p_group_id;
+
+  -- Members, messages, files, reactions, invites and events cascade
+  DELETE FROM groups WHERE id = p_group_id;
+END;
+$$;
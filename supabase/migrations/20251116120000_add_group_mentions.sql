@@ -0,0 +1,175 @@
+/*
+  # @mentions in group messages
+
+  Mentions were only text, so nobody could tell which messages were
+  addressed to them. Messages now carry the ids of the members they
+  mention, and each group counts the caller's unread mentions separately
+  from the other unread messages.
+
+  1. Modified Tables
+    - `group_messages`
+      - `mentions` (uuid[], default '{}') - mentioned members, set when the
+        message is sent; anyone who isn't a member of the group, and the
+        sender themselves, is dropped by a trigger. Editing the message
+        drops the members whose "@Name" is no longer in the text.
+
+  2. Functions
+    - `send_group_message` takes `p_mentions`
+    - `get_group_conversations` also returns `unread_mentions` (unread,
+      not deleted messages that mention the caller) and
+      `only_admins_can_post`
+*/
+
+ALTER TABLE group_messages ADD COLUMN IF NOT EXISTS mentions uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_group_messages_mentions ON group_messages USING gin (mentions);
+
+CREATE OR REPLACE FUNCTION filter_group_message_mentions()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.mentions := ARRAY(
+    SELECT gm.user_id
+    FROM group_members gm
+    JOIN profiles p ON p.id = gm.user_id
+    WHERE gm.group_id = NEW.group_id
+      AND gm.user_id = ANY (NEW.mentions)
+      AND gm.user_id <> NEW.sender_id
+      AND (TG_OP = 'INSERT' OR strpos(NEW.content, '@' || p.display_name) > 0)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER group_messages_filter_mentions
+  BEFORE INSERT OR UPDATE OF content ON group_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION filter_group_message_mentions();
+
+DROP FUNCTION IF EXISTS send_group_message(uuid, text, text, uuid, jsonb, uuid);
+
+CREATE FUNCTION send_group_message(
+  p_group_id uuid,
+  p_content text,
+  p_message_type text DEFAULT 'text',
+  p_reply_to_id uuid DEFAULT NULL,
+  p_files jsonb DEFAULT '[]'::jsonb,
+  p_client_id uuid DEFAULT NULL,
+  p_mentions uuid[] DEFAULT '{}'
+)
+RETURNS group_messages
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_message group_messages;
+BEGIN
+  INSERT INTO group_messages (group_id, sender_id, content, message_type, reply_to_id, client_id, mentions)
+  VALUES (p_group_id, auth.uid(), p_content, p_message_type, p_reply_to_id, p_client_id, COALESCE(p_mentions, '{}'))
+  ON CONFLICT (sender_id, client_id) DO NOTHING
+  RETURNING * INTO v_message;
+
+  IF NOT FOUND THEN
+    SELECT * INTO v_message
+    FROM group_messages
+    WHERE sender_id = auth.uid() AND client_id = p_client_id;
+    RETURN v_message;
+  END IF;
+
+  INSERT INTO group_files (message_id, file_name, file_type, file_size, firebase_url)
+  SELECT v_message.id, f.file_name, f.file_type, f.file_size, f.firebase_url
+  FROM jsonb_to_recordset(p_files) AS f(file_name text, file_type text, file_size bigint, firebase_url text);
+
+  RETURN v_message;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_group_conversations(uuid);
+
+CREATE FUNCTION get_group_conversations(p_group_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  id uuid,
+  name text,
+  description text,
+  avatar_url text,
+  created_by uuid,
+  created_at timestamptz,
+  only_admins_can_post boolean,
+  membership_id uuid,
+  member_count bigint,
+  unread_count bigint,
+  unread_mentions bigint,
+  last_message_content text,
+  last_message_type text,
+  last_message_sender_id uuid,
+  last_message_sender_name text,
+  last_message_created_at timestamptz,
+  pinned_at timestamptz,
+  muted_until timestamptz,
+  archived_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    g.id,
+    g.name,
+    g.description,
+    g.avatar_url,
+    g.created_by,
+    g.created_at,
+    g.only_admins_can_post,
+    me.id,
+    members.count,
+    unread.count,
+    unread.mentions,
+    last_message.content,
+    last_message.message_type,
+    last_message.sender_id,
+    sender.display_name,
+    last_message.created_at,
+    settings.pinned_at,
+    settings.muted_until,
+    settings.archived_at
+  FROM group_members me
+  JOIN groups g ON g.id = me.group_id
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS count
+    FROM group_members gm
+    WHERE gm.group_id = g.id
+  ) members
+  CROSS JOIN LATERAL (
+    SELECT
+      count(*) AS count,
+      count(*) FILTER (
+        WHERE auth.uid() = ANY (m.mentions)
+          AND m.deleted_at IS NULL
+          AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+      ) AS mentions
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND m.sender_id <> auth.uid()
+      AND (me.last_read_at IS NULL OR m.created_at > me.last_read_at)
+  ) unread
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.message_type, m.sender_id, m.created_at
+    FROM group_messages m
+    WHERE m.group_id = g.id
+      AND NOT EXISTS (SELECT 1 FROM hidden_group_messages h WHERE h.message_id = m.id AND h.user_id = auth.uid())
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN profiles sender ON sender.id = last_message.sender_id
+  LEFT JOIN conversation_settings settings
+    ON settings.user_id = auth.uid()
+    AND settings.conversation_type = 'group'
+    AND settings.conversation_id = g.id
+  WHERE me.user_id = auth.uid()
+    AND (p_group_id IS NULL OR g.id = p_group_id);
+$$;